@@ -0,0 +1,151 @@
+// Generates the bundled environments in public/environments as Radiance HDR
+// files: procedural equirectangular skies that light the scene offline.
+//
+//   node scripts/generate-environments.mjs
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const WIDTH = 512;
+const HEIGHT = 256;
+const OUT_DIR = join(dirname(fileURLToPath(import.meta.url)), "../public/environments");
+
+const DEG = Math.PI / 180;
+const mix = (a, b, t) => a.map((v, i) => v + (b[i] - v) * t);
+const scale = (c, s) => c.map((v) => v * s);
+const add = (a, b) => a.map((v, i) => v + b[i]);
+
+// Unit direction from longitude phi and elevation el, y up
+const direction = (phi, el) => [Math.cos(phi) * Math.cos(el), Math.sin(el), Math.sin(phi) * Math.cos(el)];
+const angleBetween = (a, b) => Math.acos(Math.min(1, a[0] * b[0] + a[1] * b[1] + a[2] * b[2]));
+
+// Sun disc with a soft glow around it
+function sun(dir, sunDir, color, discRadius, disc, glow) {
+  const angle = angleBetween(dir, sunDir);
+  const value = angle < discRadius ? disc : 0;
+  return scale(color, value + glow * Math.exp(-angle / (8 * DEG)));
+}
+
+function groundColor(el, albedo, light) {
+  // Slightly darker towards the nadir
+  return scale(albedo, light * (0.7 + 0.3 * (1 + Math.sin(el))));
+}
+
+const SKIES = {
+  // CIE overcast sky: the zenith is three times as bright as the horizon
+  overcast: (phi, el) =>
+    el >= 0
+      ? scale([0.95, 0.98, 1.05], (1.3 * (1 + 2 * Math.sin(el))) / 3)
+      : groundColor(el, [0.32, 0.33, 0.28], 0.9),
+
+  clear_noon: (phi, el) => {
+    const sunDir = direction(0, 60 * DEG);
+    if (el < 0) return groundColor(el, [0.36, 0.34, 0.3], 2.2);
+    const t = Math.pow(1 - Math.sin(el), 3);
+    const sky = mix([0.18, 0.36, 0.85], [0.75, 0.85, 1.0], t);
+    return add(scale(sky, 1.4), sun(direction(phi, el), sunDir, [1.0, 0.96, 0.9], 2.5 * DEG, 400, 1.5));
+  },
+
+  evening: (phi, el) => {
+    const sunDir = direction(Math.PI / 2, 6 * DEG);
+    if (el < 0) return groundColor(el, [0.3, 0.24, 0.2], 0.7);
+    const dir = direction(phi, el);
+    // Warm horizon, strongest towards the sun
+    const towardsSun = (1 + Math.cos(angleBetween([dir[0], 0, dir[2]], [sunDir[0], 0, sunDir[2]]))) / 2;
+    const t = Math.pow(1 - Math.sin(el), 4);
+    const horizon = mix([0.55, 0.45, 0.5], [1.6, 0.8, 0.35], towardsSun);
+    const sky = mix([0.2, 0.28, 0.55], horizon, t);
+    return add(scale(sky, 1.2), sun(dir, sunDir, [1.0, 0.62, 0.3], 2.5 * DEG, 150, 2.5));
+  },
+
+  urban: (() => {
+    // Seeded skyline of blocks between 6° and 28° high
+    let seed = 7;
+    const random = () => ((seed = (seed * 16807) % 2147483647) / 2147483647);
+    const blocks = [];
+    for (let start = 0; start < 2 * Math.PI; ) {
+      const width = (8 + random() * 20) * DEG;
+      blocks.push({ start, end: start + width, height: (6 + random() * 22) * DEG, shade: 0.6 + random() * 0.5 });
+      start += width;
+    }
+    const sunDir = direction(-Math.PI / 3, 40 * DEG);
+    return (phi, el) => {
+      const p = phi + Math.PI;
+      const block = blocks.find((b) => p >= b.start && p < b.end) ?? blocks[0];
+      if (el < 0) return groundColor(el, [0.14, 0.14, 0.15], 1.2);
+      if (el < block.height) {
+        // Facades with a grid of windows reflecting the sky
+        const column = ((p - block.start) / (1.5 * DEG)) % 1;
+        const row = (el / (1.8 * DEG)) % 1;
+        const window = column > 0.25 && column < 0.75 && row > 0.3 && row < 0.8;
+        const wall = scale([0.42, 0.4, 0.38], block.shade);
+        return window ? [0.35, 0.42, 0.5] : wall;
+      }
+      const t = Math.pow(1 - Math.sin(el), 3);
+      const sky = mix([0.35, 0.5, 0.8], [0.85, 0.88, 0.92], t);
+      return add(scale(sky, 1.3), sun(direction(phi, el), sunDir, [1.0, 0.95, 0.88], 2.5 * DEG, 250, 1.2));
+    };
+  })(),
+};
+
+// Shared-exponent RGBE encoding of one linear colour
+function rgbe([r, g, b]) {
+  const max = Math.max(r, g, b);
+  if (max < 1e-32) return [0, 0, 0, 0];
+  const exponent = Math.ceil(Math.log2(max * (1 + 1e-9)));
+  const factor = 256 / Math.pow(2, exponent);
+  const byte = (v) => Math.min(255, Math.floor(v * factor));
+  return [byte(r), byte(g), byte(b), exponent + 128];
+}
+
+// New-style run-length encoding: every scanline stores its four channels
+// separately as runs and literal chunks of at most 127/128 bytes
+function encodeChannel(bytes) {
+  const out = [];
+  let i = 0;
+  while (i < bytes.length) {
+    let run = 1;
+    while (i + run < bytes.length && run < 127 && bytes[i + run] === bytes[i]) run++;
+    if (run >= 4) {
+      out.push(128 + run, bytes[i]);
+      i += run;
+      continue;
+    }
+    const start = i;
+    while (i < bytes.length && i - start < 128) {
+      let ahead = 1;
+      while (i + ahead < bytes.length && ahead < 4 && bytes[i + ahead] === bytes[i]) ahead++;
+      if (ahead >= 4) break;
+      i++;
+    }
+    out.push(i - start, ...bytes.slice(start, i));
+  }
+  return out;
+}
+
+function encodeHdr(sky) {
+  const header = `#?RADIANCE\n# Procedural sky, see scripts/generate-environments.mjs\nFORMAT=32-bit_rle_rgbe\n\n-Y ${HEIGHT} +X ${WIDTH}\n`;
+  const chunks = [Buffer.from(header, "ascii")];
+  for (let y = 0; y < HEIGHT; y++) {
+    const el = (0.5 - (y + 0.5) / HEIGHT) * Math.PI;
+    const pixels = [];
+    for (let x = 0; x < WIDTH; x++) {
+      const phi = ((x + 0.5) / WIDTH) * 2 * Math.PI - Math.PI;
+      pixels.push(rgbe(sky(phi, el).map((v) => Math.max(0, v))));
+    }
+    const line = [2, 2, WIDTH >> 8, WIDTH & 255];
+    for (let channel = 0; channel < 4; channel++) {
+      line.push(...encodeChannel(pixels.map((p) => p[channel])));
+    }
+    chunks.push(Buffer.from(line));
+  }
+  return Buffer.concat(chunks);
+}
+
+mkdirSync(OUT_DIR, { recursive: true });
+Object.entries(SKIES).forEach(([id, sky]) => {
+  const file = join(OUT_DIR, `${id}.hdr`);
+  writeFileSync(file, encodeHdr(sky));
+  console.log(`${file}`);
+});
@@ -1,7 +1,48 @@
+import { useEffect, useState } from "react";
 import { FacadeViewer } from "./components/FacadeViewer";
+import { StartupErrorPanel } from "./components/StartupErrorPanel";
+import { MaterialCatalog } from "./config/catalog";
+import { ModelManifest } from "./config/models";
+import { loadCatalog } from "./utils/catalogUtils";
+import { loadModelManifest } from "./utils/modelUtils";
+import { ValidationError } from "./utils/validation";
+
+interface StartupData {
+  catalog: MaterialCatalog;
+  manifest: ModelManifest;
+}
+
+interface StartupError {
+  title: string;
+  errors: string[];
+}
 
 function App() {
-  return <FacadeViewer />;
+  const [data, setData] = useState<StartupData>();
+  const [startupError, setStartupError] = useState<StartupError>();
+
+  // The viewer needs a valid material catalog and model manifest before it
+  // can render anything. The manifest refers to catalog ids, so it is
+  // validated against the catalog.
+  useEffect(() => {
+    loadCatalog()
+      .then(async (catalog) => ({
+        catalog,
+        manifest: await loadModelManifest(catalog),
+      }))
+      .then(setData)
+      .catch((error: Error) => {
+        setStartupError(
+          error instanceof ValidationError
+            ? { title: error.title, errors: error.errors }
+            : { title: "Fehler beim Start", errors: [error.message] }
+        );
+      });
+  }, []);
+
+  if (startupError) return <StartupErrorPanel {...startupError} />;
+  if (!data) return null;
+  return <FacadeViewer catalog={data.catalog} models={data.manifest.models} />;
 }
 
 export default App;
@@ -0,0 +1,330 @@
+import React, { useRef } from "react";
+import {
+  MaterialCatalog,
+  TreatmentEntry,
+  TreatmentMaintenance,
+  ZoneConfigs,
+} from "../config/catalog";
+import {
+  AGING_TIMELINE_YEARS,
+  FACADE_ZONES,
+  MAINTENANCE_ACTIONS,
+  MaintenanceAction,
+} from "../config/constants";
+import {
+  formatAge,
+  maintenanceEvents,
+  RenovationSettings,
+} from "../utils/agingUtils";
+
+interface AgingTimelineProps {
+  age: number; // Years since installation
+  playing: boolean;
+  speed: number; // Years per second
+  renovation: RenovationSettings;
+  zones: ZoneConfigs;
+  zoneIds: string[]; // Zones present in the model
+  catalog: MaterialCatalog;
+  onAgeChange: (age: number) => void;
+  onTogglePlay: () => void;
+  onSpeedChange: (speed: number) => void;
+  onRenovationChange: (renovation: RenovationSettings) => void;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 5];
+const TICK_YEARS = 5;
+const ACTION_COLORS: { [action in MaintenanceAction]: string } = {
+  recoat: "#16a34a",
+  repaint: "#f59e0b",
+};
+
+const percent = (age: number) => `${(age / AGING_TIMELINE_YEARS) * 100}%`;
+
+/**
+ * Scrubs and plays back the aging over the timeline in monthly steps and
+ * shows when the treatments in use are due for renovation.
+ */
+export function AgingTimeline({
+  age,
+  playing,
+  speed,
+  renovation,
+  zones,
+  zoneIds,
+  catalog,
+  onAgeChange,
+  onTogglePlay,
+  onSpeedChange,
+  onRenovationChange,
+  onClose,
+}: AgingTimelineProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  // Treatments with a maintenance interval and the zones using them
+  const maintained = FACADE_ZONES.filter((zone) => zoneIds.includes(zone.id)).reduce<
+    { treatment: TreatmentEntry; maintenance: TreatmentMaintenance; zoneNames: string[] }[]
+  >((list, zone) => {
+    const treatment = catalog.treatments.find((t) => t.id === zones[zone.id]?.treatment);
+    const maintenance = treatment?.maintenance;
+    if (!treatment || !maintenance) return list;
+    const entry = list.find((e) => e.treatment.id === treatment.id);
+    if (entry) entry.zoneNames.push(zone.name);
+    else list.push({ treatment, maintenance, zoneNames: [zone.name] });
+    return list;
+  }, []);
+
+  const scrub = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    const t = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    onAgeChange(Math.round(t * AGING_TIMELINE_YEARS * 12) / 12);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = e.shiftKey ? 1 : 1 / 12;
+    const delta = e.key === "ArrowRight" ? step : e.key === "ArrowLeft" ? -step : 0;
+    if (delta === 0) return;
+    e.preventDefault();
+    const next = Math.min(AGING_TIMELINE_YEARS, Math.max(0, age + delta));
+    onAgeChange(Math.round(next * 12) / 12);
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: "6px 12px",
+    background: "#2563eb",
+    color: "white",
+    border: "none",
+    borderRadius: "4px",
+    cursor: "pointer",
+    fontSize: "12px",
+    minWidth: "72px",
+  };
+  const mutedStyle: React.CSSProperties = { fontSize: "12px", color: "#666" };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        left: "50%",
+        bottom: "120px",
+        transform: "translateX(-50%)",
+        zIndex: 1000,
+        width: "560px",
+        maxWidth: "calc(100% - 32px)",
+        boxSizing: "border-box",
+        background: "white",
+        padding: "16px",
+        borderRadius: "8px",
+        boxShadow: "0 2px 8px rgba(0,0,0,0.1)",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        fontSize: "13px",
+        color: "#333",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
+        <span style={{ fontSize: "14px", fontWeight: 500, flex: 1 }}>
+          Alterung über {AGING_TIMELINE_YEARS} Jahre
+        </span>
+        <button
+          onClick={onClose}
+          aria-label="Schliessen"
+          style={{
+            background: "none",
+            border: "none",
+            padding: 0,
+            color: "#666",
+            cursor: "pointer",
+            fontSize: "16px",
+            lineHeight: 1,
+          }}
+        >
+          ×
+        </button>
+      </div>
+
+      <div style={{ display: "flex", alignItems: "center", gap: "12px", marginTop: "12px" }}>
+        <button onClick={onTogglePlay} style={buttonStyle}>
+          {playing ? "Anhalten" : "Abspielen"}
+        </button>
+        <span style={{ flex: 1 }}>
+          Alter: <strong>{formatAge(age)}</strong>
+        </span>
+        <label style={mutedStyle}>
+          Tempo{" "}
+          <select
+            value={speed}
+            onChange={(e) => onSpeedChange(Number(e.target.value))}
+            style={{ fontSize: "12px" }}
+          >
+            {SPEEDS.map((s) => (
+              <option key={s} value={s}>
+                {s.toLocaleString("de-CH")} Jahre/s
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Track with the renovations as markers */}
+      <div
+        ref={trackRef}
+        role="slider"
+        tabIndex={0}
+        aria-label="Alter"
+        aria-valuemin={0}
+        aria-valuemax={AGING_TIMELINE_YEARS}
+        aria-valuenow={age}
+        aria-valuetext={formatAge(age)}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          scrub(e);
+        }}
+        onPointerMove={(e) => {
+          if (e.currentTarget.hasPointerCapture(e.pointerId)) scrub(e);
+        }}
+        onKeyDown={handleKeyDown}
+        style={{
+          position: "relative",
+          height: "24px",
+          margin: "16px 8px 0",
+          cursor: "pointer",
+          touchAction: "none",
+        }}
+      >
+        <div
+          style={{
+            position: "absolute",
+            left: 0,
+            right: 0,
+            top: "10px",
+            height: "4px",
+            borderRadius: "2px",
+            background: "#e5e5e5",
+          }}
+        />
+        <div
+          style={{
+            position: "absolute",
+            left: 0,
+            width: percent(age),
+            top: "10px",
+            height: "4px",
+            borderRadius: "2px",
+            background: "#2563eb",
+          }}
+        />
+        {maintained.flatMap(({ treatment }) =>
+          maintenanceEvents(treatment, renovation.intervals).map((event) => (
+            <div
+              key={`${treatment.id}-${event.year}`}
+              title={`${MAINTENANCE_ACTIONS[event.action]} nach ${event.year} Jahren`}
+              style={{
+                position: "absolute",
+                left: percent(event.year),
+                top: "6px",
+                width: "10px",
+                height: "10px",
+                transform: "translateX(-50%) rotate(45deg)",
+                background: ACTION_COLORS[event.action],
+                opacity: renovation.enabled ? 1 : 0.35,
+              }}
+            />
+          ))
+        )}
+        <div
+          style={{
+            position: "absolute",
+            left: percent(age),
+            top: "4px",
+            width: "16px",
+            height: "16px",
+            transform: "translateX(-50%)",
+            borderRadius: "50%",
+            background: "white",
+            border: "2px solid #2563eb",
+            boxSizing: "border-box",
+          }}
+        />
+      </div>
+      <div style={{ position: "relative", height: "16px", margin: "2px 8px 0", ...mutedStyle }}>
+        {Array.from({ length: AGING_TIMELINE_YEARS / TICK_YEARS + 1 }, (_, i) => (
+          <span
+            key={i}
+            style={{
+              position: "absolute",
+              left: percent(i * TICK_YEARS),
+              transform: "translateX(-50%)",
+            }}
+          >
+            {i * TICK_YEARS}
+          </span>
+        ))}
+      </div>
+
+      <label style={{ display: "flex", alignItems: "center", gap: "6px", marginTop: "12px" }}>
+        <input
+          type="checkbox"
+          checked={renovation.enabled}
+          onChange={(e) => onRenovationChange({ ...renovation, enabled: e.target.checked })}
+        />
+        Renovierungen einplanen
+      </label>
+
+      {maintained.length === 0 ? (
+        <div style={{ ...mutedStyle, marginTop: "8px" }}>
+          Die gewählten Behandlungen brauchen keine planmässige Renovierung.
+        </div>
+      ) : (
+        maintained.map(({ treatment, maintenance, zoneNames }) => {
+          const treatmentId = treatment.id;
+          const events = maintenanceEvents(treatment, renovation.intervals);
+          const next = events.find((event) => event.year > age);
+          return (
+            <div key={treatmentId} style={{ marginTop: "8px" }}>
+              <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                <span
+                  style={{
+                    width: "8px",
+                    height: "8px",
+                    transform: "rotate(45deg)",
+                    background: ACTION_COLORS[maintenance.action],
+                  }}
+                />
+                <span style={{ flex: 1 }}>
+                  {MAINTENANCE_ACTIONS[maintenance.action]}{" "}
+                  <span style={mutedStyle}>
+                    ({treatment.name}: {zoneNames.join(", ")})
+                  </span>
+                </span>
+                <label style={mutedStyle}>
+                  alle{" "}
+                  <input
+                    type="number"
+                    min={1}
+                    max={AGING_TIMELINE_YEARS}
+                    value={renovation.intervals[treatmentId] ?? maintenance.intervalYears}
+                    onChange={(e) => {
+                      const interval = Math.round(Number(e.target.value));
+                      if (interval < 1 || interval > AGING_TIMELINE_YEARS) return;
+                      onRenovationChange({
+                        ...renovation,
+                        intervals: { ...renovation.intervals, [treatmentId]: interval },
+                      });
+                    }}
+                    style={{ width: "44px", fontSize: "12px" }}
+                  />{" "}
+                  Jahre
+                </label>
+              </div>
+              <div style={{ ...mutedStyle, marginLeft: "16px" }}>
+                Fällig nach {events.map((event) => event.year).join(", ")} Jahren
+                {next && ` · nächste in ${formatAge(next.year - age)}`}
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
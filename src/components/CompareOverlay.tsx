@@ -0,0 +1,118 @@
+import React, { useRef } from "react";
+import { CompareLayout, compareViewports } from "../utils/compareUtils";
+
+interface CompareOverlayProps {
+  layout: Exclude<CompareLayout, "off">;
+  split: number; // 0–1
+  labels: string[]; // One per view, A first
+  onSplitChange: (split: number) => void;
+}
+
+const VIEW_NAMES = ["A", "B", "C", "D"];
+
+const percent = (value: number) => `${value * 100}%`;
+
+/**
+ * Names the compare views over the canvas and draws their dividers. Only the
+ * handle of the before/after slider takes pointer input; everything else is
+ * left to the camera controls.
+ */
+export function CompareOverlay({ layout, split, labels, onSplitChange }: CompareOverlayProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewports = compareViewports(layout, split);
+
+  const dividerStyle: React.CSSProperties = {
+    position: "absolute",
+    background: "white",
+    boxShadow: "0 0 4px rgba(0,0,0,0.3)",
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const container = containerRef.current;
+    if (!container || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const rect = container.getBoundingClientRect();
+    onSplitChange(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        position: "fixed",
+        inset: "80px 0 0 0",
+        zIndex: 20,
+        pointerEvents: "none",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+      }}
+    >
+      {viewports.map(({ scissor }, i) => (
+        <div
+          key={i}
+          style={{
+            position: "absolute",
+            left: percent(scissor.x + scissor.width / 2),
+            top: `calc(${percent(scissor.y)} + 16px)`,
+            transform: "translateX(-50%)",
+            maxWidth: `calc(${percent(scissor.width)} - 32px)`,
+            padding: "6px 12px",
+            background: "white",
+            borderRadius: "4px",
+            boxShadow: "0 2px 8px rgba(0,0,0,0.1)",
+            fontSize: "13px",
+            color: "#333",
+            whiteSpace: "nowrap",
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+            // The label of a view hidden behind the slider would only get in the way
+            visibility: scissor.width > 0.05 ? "visible" : "hidden",
+          }}
+        >
+          <strong>{VIEW_NAMES[i]}</strong> {labels[i]}
+        </div>
+      ))}
+
+      {layout !== "slider" && (
+        <div style={{ ...dividerStyle, left: "50%", top: 0, bottom: 0, width: "2px" }} />
+      )}
+      {layout === "4" && (
+        <div style={{ ...dividerStyle, top: "50%", left: 0, right: 0, height: "2px" }} />
+      )}
+      {layout === "slider" && (
+        <>
+          <div style={{ ...dividerStyle, left: percent(split), top: 0, bottom: 0, width: "2px" }} />
+          <div
+            role="slider"
+            aria-label="Vorher / Nachher"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(split * 100)}
+            onPointerDown={(e) => e.currentTarget.setPointerCapture(e.pointerId)}
+            onPointerMove={handlePointerMove}
+            style={{
+              position: "absolute",
+              left: percent(split),
+              top: "50%",
+              transform: "translate(-50%, -50%)",
+              width: "36px",
+              height: "36px",
+              borderRadius: "50%",
+              background: "white",
+              boxShadow: "0 2px 8px rgba(0,0,0,0.3)",
+              cursor: "ew-resize",
+              pointerEvents: "auto",
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              color: "#2563eb",
+              fontSize: "14px",
+              userSelect: "none",
+              touchAction: "none",
+            }}
+          >
+            ◀▶
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
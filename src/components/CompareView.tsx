@@ -0,0 +1,120 @@
+import { useEffect, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import { Material, PerspectiveCamera } from "three";
+import { ZoneConfigs } from "../config/catalog";
+import { DEFAULT_ZONE } from "../config/constants";
+import { MaterialManager } from "../utils/materialManager";
+import { RenovationIntervals, renovatedAge } from "../utils/agingUtils";
+import { facadeMeshes } from "../utils/sectionUtils";
+import { CompareLayout, CompareRect, compareViewports } from "../utils/compareUtils";
+
+export interface CompareVariant {
+  zones: ZoneConfigs;
+  age: number;
+}
+
+interface CompareViewProps {
+  layout: Exclude<CompareLayout, "off">;
+  split: number; // 0–1, position of the before/after divider
+  variants: CompareVariant[]; // Views B, C, D; view A shows the scene as configured
+  zoneIds: string[]; // Zones present in the model
+  renovations?: RenovationIntervals;
+  materials: MaterialManager;
+}
+
+/**
+ * Renders the scene once per compare view into its own part of the canvas.
+ * All views share the camera, so orbiting moves them together. Before each
+ * view is drawn the facade meshes get the materials of its variant.
+ */
+export function CompareView({
+  layout,
+  split,
+  variants,
+  zoneIds,
+  renovations,
+  materials,
+}: CompareViewProps) {
+  // Materials per variant and zone, acquired like in CustomModel
+  const variantMaterialsRef = useRef<Map<string, Material>[]>([]);
+
+  useEffect(() => {
+    const acquired = variants.map(
+      (variant) =>
+        new Map(
+          zoneIds.map((zoneId) => {
+            const zone = variant.zones[zoneId] ?? variant.zones[DEFAULT_ZONE];
+            const material = materials.acquire(
+              { ...zone, age: renovatedAge(variant.age, zone.treatment, renovations) },
+              { exposureWeathering: true }
+            );
+            return [zoneId, material];
+          })
+        )
+    );
+    const previous = variantMaterialsRef.current;
+    variantMaterialsRef.current = acquired;
+    previous.forEach((zones) => zones.forEach((material) => materials.release(material)));
+  }, [variants, zoneIds, renovations, materials]);
+
+  useEffect(
+    () => () => {
+      variantMaterialsRef.current.forEach((zones) =>
+        zones.forEach((material) => materials.release(material))
+      );
+      variantMaterialsRef.current = [];
+    },
+    [materials]
+  );
+
+  // A positive priority takes over rendering from the default loop
+  useFrame(({ gl, scene, camera, size }) => {
+    const meshes = facadeMeshes(scene);
+    const original = meshes.map((mesh) => mesh.material);
+    const aspect = camera instanceof PerspectiveCamera ? camera.aspect : undefined;
+
+    // Canvas pixels with the origin at the bottom left
+    const toPixels = (rect: CompareRect) => {
+      const x = Math.round(rect.x * size.width);
+      const y = Math.round((1 - rect.y - rect.height) * size.height);
+      const width = Math.round((rect.x + rect.width) * size.width) - x;
+      const height = Math.round((1 - rect.y) * size.height) - y;
+      return [x, y, width, height] as const;
+    };
+
+    gl.setScissorTest(true);
+    compareViewports(layout, split).forEach(({ viewport, scissor }, i) => {
+      const zones = i > 0 ? variantMaterialsRef.current[i - 1] : undefined;
+      meshes.forEach((mesh, j) => {
+        const source = original[j] as Material;
+        const material = zones?.get(mesh.userData.zone) ?? source;
+        // The section plane only clips the materials it knows about
+        if (material.clippingPlanes !== source.clippingPlanes) {
+          material.clippingPlanes = source.clippingPlanes;
+          material.clipShadows = source.clipShadows;
+          material.needsUpdate = true;
+        }
+        mesh.material = material;
+      });
+
+      const [x, y, width, height] = toPixels(viewport);
+      gl.setViewport(x, y, width, height);
+      gl.setScissor(...toPixels(scissor));
+      if (camera instanceof PerspectiveCamera && height > 0) {
+        camera.aspect = width / height;
+        camera.updateProjectionMatrix();
+      }
+      gl.render(scene, camera);
+    });
+
+    meshes.forEach((mesh, j) => (mesh.material = original[j]));
+    gl.setScissorTest(false);
+    gl.setViewport(0, 0, size.width, size.height);
+    if (camera instanceof PerspectiveCamera && aspect !== undefined) {
+      camera.aspect = aspect;
+      camera.updateProjectionMatrix();
+    }
+  }, 1);
+
+  return null;
+}
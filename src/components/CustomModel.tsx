@@ -1,66 +1,178 @@
-import { useEffect, useRef } from "react";
-import { useLoader } from "@react-three/fiber";
-import { Box3, Vector3, MeshStandardMaterial } from "three";
+import { useEffect, useMemo, useRef } from "react";
+import { ThreeEvent, useLoader } from "@react-three/fiber";
+import { Box3, Vector3, Mesh, Material, Object3D } from "three";
 import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
-import { createMaterial } from "../utils/materialUtils";
+import { ZoneConfigs } from "../config/catalog";
+import { DEFAULT_ZONE } from "../config/constants";
+import { BuildingParameters } from "../config/models";
+import { MaterialManager } from "../utils/materialManager";
+import { RenovationIntervals, renovatedAge } from "../utils/agingUtils";
+import { buildingRoofLine, disposeBuilding, generateBuilding } from "../utils/buildingGenerator";
+import { detectZone, ensureBoxUVs } from "../utils/modelUtils";
+import { applyWeatheringExposure } from "../utils/weatheringUtils";
 
 interface FacadeModelProps {
   modelPath?: string;
-  woodType: string;
-  surface: string;
-  age: number;
-  treatment: string;
-  finishColor?: string;
+  object?: Object3D; // Already loaded model, e.g. an imported file
+  building?: BuildingParameters; // Tile the model across a building instead
+  materials: MaterialManager;
+  zones: ZoneConfigs;
+  age: number; // Years since installation
+  renovations?: RenovationIntervals; // Treatments renovated at these intervals
+  orientation: number;
+  overhangDepth: number;
+  onZonesDetected?: (zoneIds: string[]) => void;
+  onSelectZone?: (zoneId: string) => void;
+  onObjectReady?: (object: Object3D) => void; // Zones assigned and placed
 }
 
-export function CustomModel({
+type FacadeObjectProps = Omit<FacadeModelProps, "modelPath" | "object" | "building"> & {
+  object: Object3D;
+};
+
+type FacadeModuleProps = FacadeObjectProps & Pick<FacadeModelProps, "building">;
+
+export function CustomModel({ modelPath, object, ...props }: FacadeModelProps) {
+  if (object) return <FacadeModule object={object} {...props} />;
+  return <LoadedFacadeModel modelPath={modelPath || ""} {...props} />;
+}
+
+function LoadedFacadeModel({
   modelPath,
-  woodType,
-  surface,
+  ...props
+}: Omit<FacadeModuleProps, "object"> & { modelPath: string }) {
+  const gltf = useLoader(GLTFLoader, modelPath);
+  if (!gltf?.scene) return null;
+  return <FacadeModule object={gltf.scene} {...props} />;
+}
+
+// Shows the facade module on its own or tiled across a building
+function FacadeModule({ object, building, ...props }: FacadeModuleProps) {
+  const buildingObject = useMemo(
+    () => (building ? generateBuilding(object, building) : undefined),
+    [object, building]
+  );
+  useEffect(
+    () => () => {
+      if (buildingObject) disposeBuilding(buildingObject);
+    },
+    [buildingObject]
+  );
+  return <FacadeObject object={buildingObject ?? object} {...props} />;
+}
+
+// Applies zones, materials and weathering to a loaded model
+function FacadeObject({
+  object,
+  materials,
+  zones,
   age,
-  treatment,
-  finishColor,
-}: FacadeModelProps) {
-  const gltf = useLoader(GLTFLoader, modelPath || "");
-  const materialRef = useRef<MeshStandardMaterial | null>(null);
+  renovations,
+  orientation,
+  overhangDepth,
+  onZonesDetected,
+  onSelectZone,
+  onObjectReady,
+}: FacadeObjectProps) {
+  const acquiredRef = useRef<Material[]>([]);
 
-  // Apply material effects to loaded model
+  // Assign every mesh to a facade zone based on its names. Context around
+  // the facade, e.g. the walls and roof of a building, keeps its material.
   useEffect(() => {
-    if (gltf?.scene) {
-      gltf.scene.traverse((child: any) => {
-        if (child.isMesh) {
-          const newMaterial = createMaterial(
-            woodType,
-            surface,
-            age,
-            treatment,
-            finishColor
-          );
-          child.material = newMaterial;
-          materialRef.current = newMaterial;
-        }
-      });
-    }
-  }, [gltf?.scene, woodType, surface, age, treatment, finishColor]);
+    const zoneIds = new Set<string>();
+    object.traverse((child) => {
+      if (child instanceof Mesh && !child.userData.context) {
+        child.userData.zone = detectZone(child);
+        zoneIds.add(child.userData.zone);
+      }
+    });
+    onZonesDetected?.([...zoneIds]);
+  }, [object, onZonesDetected]);
+
+  // Texture sets need UVs, which the bundled GLBs don't have
+  useEffect(() => {
+    object.traverse((child) => {
+      if (child instanceof Mesh && !child.userData.context) {
+        ensureBoxUVs(child.geometry);
+      }
+    });
+  }, [object]);
+
+  // Apply material effects to loaded model. Meshes of a zone share one
+  // material from the manager. New materials are acquired before the old ones
+  // are released, so unchanged zones keep their cached material.
+  useEffect(() => {
+    const acquired: Material[] = [];
+    object.traverse((child) => {
+      if (child instanceof Mesh && !child.userData.context) {
+        const zone =
+          zones[child.userData.zone ?? DEFAULT_ZONE] ?? zones[DEFAULT_ZONE];
+        const material = materials.acquire(
+          { ...zone, age: renovatedAge(age, zone.treatment, renovations) },
+          { exposureWeathering: true }
+        );
+        child.material = material;
+        acquired.push(material);
+      }
+    });
+
+    acquiredRef.current.forEach((material) => materials.release(material));
+    acquiredRef.current = acquired;
+  }, [object, materials, zones, age, renovations]);
+
+  // Release everything when the model or manager goes away
+  useEffect(
+    () => () => {
+      acquiredRef.current.forEach((material) => materials.release(material));
+      acquiredRef.current = [];
+    },
+    [object, materials]
+  );
 
   // Position the model correctly
   useEffect(() => {
-    if (gltf?.scene) {
-      // Center the model horizontally
-      gltf.scene.position.set(0, 0, 0);
-
-      // Calculate bounding box
-      const box = new Box3().setFromObject(gltf.scene);
-      const size = new Vector3();
-      const center = new Vector3();
-      box.getSize(size);
-      box.getCenter(center);
-
-      // Adjust position to center the model
-      gltf.scene.position.y = -center.y;
-    }
-  }, [gltf?.scene]);
+    // Center the model horizontally
+    object.position.set(0, 0, 0);
 
-  if (!gltf?.scene) return null;
-  return <primitive object={gltf.scene} />; // Cast necessary if strict mode is on
+    // Calculate bounding box
+    const box = new Box3().setFromObject(object);
+    const size = new Vector3();
+    const center = new Vector3();
+    box.getSize(size);
+    box.getCenter(center);
+
+    // Adjust position to center the model
+    object.position.y = -center.y;
+  }, [object]);
+
+  // Per-vertex exposure for the weathering shader, needs the final position.
+  // A generated building has its own overhang and shelters each wall below
+  // its eave or verge instead of the ridge.
+  useEffect(() => {
+    object.updateMatrixWorld(true);
+    const building: BuildingParameters | undefined = object.userData.building;
+    applyWeatheringExposure(
+      object,
+      building
+        ? {
+            orientation,
+            overhangDepth: building.overhang,
+            roofLine: buildingRoofLine(object, building),
+          }
+        : { orientation, overhangDepth }
+    );
+  }, [object, orientation, overhangDepth]);
+
+  useEffect(() => {
+    onObjectReady?.(object);
+  }, [object, onObjectReady]);
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    // Ignore clicks that end an orbit drag
+    if (!onSelectZone || e.delta > 2) return;
+    e.stopPropagation();
+    onSelectZone(e.object.userData.zone ?? DEFAULT_ZONE);
+  };
+
+  return <primitive object={object} onClick={handleClick} />;
 } 
\ No newline at end of file
@@ -1,136 +1,1191 @@
-import { Canvas } from "@react-three/fiber";
+import { Canvas, RootState } from "@react-three/fiber";
 import {
   OrbitControls,
   Stage,
 } from "@react-three/drei";
-import { Suspense, useEffect, useMemo, useRef, useState } from "react";
+import {
+  Suspense,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { useControls, button, Leva } from "leva";
-import { Vector2 } from "three";
+import {
+  DataTexture,
+  Object3D,
+  PerspectiveCamera,
+  SRGBColorSpace,
+  TextureLoader,
+  Vector2,
+  Vector3,
+} from "three";
 import { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
 
 // Config & Utils
 import {
-  WOOD_TYPES,
-  SURFACE_TYPES,
-  LASUR_COLORS,
-  PIGMENT_COLORS,
+  AGING_TIMELINE_YEARS,
+  BRAND_LOGO_URL,
+  DEFAULT_SUN_LOCATION,
+  DEFAULT_ZONE,
+  FACADE_ORIENTATIONS,
+  FACADE_ZONES,
+  IMAGE_EXPORT_SIZES,
+  SECTION_AXES,
 } from "../config/constants";
-import { loadAvailableModels } from "../utils/modelUtils";
+import {
+  MaterialCatalog,
+  ZoneConfigs,
+  ZoneMaterialConfig,
+} from "../config/catalog";
+import {
+  BOARD_ORIENTATIONS,
+  BoardOrientation,
+  BuildingParameters,
+  CladdingParameters,
+  DEFAULT_BUILDING,
+  DEFAULT_CLADDING,
+  ModelEntry,
+  ORIENTATION_LABELS,
+  PARAMETRIC_MODEL_ID,
+  PROFILE_TYPES,
+  ProfileType,
+  RoofType,
+  ROOF_TYPES,
+} from "../config/models";
+import { SCENE_CONFIG_VERSION } from "../config/scene";
+import {
+  CUSTOM_ENVIRONMENT_ID,
+  DEFAULT_ENVIRONMENT_ID,
+  ENVIRONMENT_ACCEPT,
+  ENVIRONMENT_PRESETS,
+} from "../config/environments";
+import { MaterialManager } from "../utils/materialManager";
+import {
+  describeCladding,
+  disposeCladding,
+  generateCladding,
+} from "../utils/claddingGenerator";
+import { computeTakeoff, measureFacade } from "../utils/takeoffUtils";
+import { exportFacadeGlb } from "../utils/exportUtils";
+import { downloadFile } from "../utils/downloadUtils";
+import { SectionContour } from "../utils/sectionUtils";
+import {
+  CompareLayout,
+  compareViewCount,
+  describeVariant,
+} from "../utils/compareUtils";
+import { Measurement } from "../utils/measureUtils";
+import { defaultRenovation, renovatedAge } from "../utils/agingUtils";
+import {
+  CameraBookmark,
+  PRESET_VIEWS,
+  PresetViewId,
+} from "../utils/cameraViews";
+import { localDateTime, solarPosition, sunDirection } from "../utils/sunUtils";
+import { loadEnvironmentFile } from "../utils/environmentUtils";
+import {
+  canvasToBlob,
+  composeImage,
+  describeConfiguration,
+  loadImage,
+  renderImage,
+} from "../utils/imageExport";
+import {
+  IMPORT_ACCEPT,
+  ImportedModel,
+  importModelFiles,
+} from "../utils/importUtils";
+import {
+  encodeShareState,
+  parseShareState,
+  SectionAxis,
+  SharedState,
+  ShareState,
+  shareLink,
+} from "../utils/shareUtils";
+import { ValidationError } from "../utils/validation";
+import {
+  deleteProject,
+  exportProject,
+  importProject,
+  loadProjects,
+  newProjectId,
+  Project,
+  ProjectVariant,
+  saveProject,
+  THUMBNAIL_SIZE,
+} from "../utils/projectStore";
 
 // Components
 import { Header } from "./Header";
 import { SphericalBackground } from "./SphericalBackground";
 import { CustomModel } from "./CustomModel";
-import { SceneController } from "./SceneController";
+import { SceneController, SceneControls } from "./SceneController";
 import { Toolbar } from "./Toolbar";
 import { SectionOutlinePanel } from "./SectionOutlinePanel";
+import { ModelInfoPanel } from "./ModelInfoPanel";
+import { Notice } from "./Notice";
+import { TakeoffPanel } from "./TakeoffPanel";
+import { ProjectPanel } from "./ProjectPanel";
+import { MeasureTool } from "./MeasureTool";
+import { SunLight } from "./SunLight";
+import { SceneEnvironment } from "./SceneEnvironment";
+import { MontagePhoto, PhotoMontage } from "./PhotoMontage";
+import { CompareVariant, CompareView } from "./CompareView";
+import { CompareOverlay } from "./CompareOverlay";
+import { AgingTimeline } from "./AgingTimeline";
 
-// Types (If not already in constants.ts or elsewhere)
-interface ControlsRef {
-  reset: () => void;
-  zoomToFit: () => void;
-  toggleClipping: () => void;
+interface FacadeViewerProps {
+  catalog: MaterialCatalog;
+  models: ModelEntry[];
 }
 
-export function FacadeViewer() {
-  const availableModels = useMemo(() => loadAvailableModels(), []);
-  const [glbFiles] = useState<string[]>(availableModels);
-  const [selectedModel, setSelectedModel] = useState<string>(
-    availableModels[0]
+// Leva select options map display names to catalog ids
+const toOptions = (entries: { id: string; name: string }[]) =>
+  Object.fromEntries(entries.map((e) => [e.name, e.id]));
+
+// Leaves out missing values, so Leva keeps the current ones
+const defined = <T extends object>(values: T) =>
+  Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+
+const defaultFinishColor = (catalog: MaterialCatalog, treatmentId: string) => {
+  const colors = catalog.treatments.find((t) => t.id === treatmentId)?.colors;
+  return colors ? Object.values(colors)[0] : undefined;
+};
+
+// Every zone starts with the same material, the catalog defaults unless
+// the model declares its own
+const defaultZoneConfigs = (
+  catalog: MaterialCatalog,
+  material: ZoneMaterialConfig = {
+    woodType: catalog.defaults.wood,
+    surface: catalog.defaults.surface,
+    treatment: catalog.defaults.treatment,
+    finishColor: defaultFinishColor(catalog, catalog.defaults.treatment),
+  }
+): ZoneConfigs =>
+  Object.fromEntries(FACADE_ZONES.map((zone) => [zone.id, material]));
+
+// Cladding material and age of compare view B, C or D; the other zones
+// follow view A. Each view starts with another wood from the catalog.
+const useCompareVariant = (view: "B" | "C" | "D", catalog: MaterialCatalog) => {
+  const index = "ABCD".indexOf(view);
+  const folder = `Vergleich.Ansicht ${view}`;
+  const show = (get: (key: string) => unknown) =>
+    compareViewCount(get("Vergleich.Modus") as CompareLayout) > index;
+  const controls = useControls(
+    folder,
+    {
+      Holzart: {
+        options: toOptions(catalog.woods),
+        value: catalog.woods[index % catalog.woods.length].id,
+        render: show,
+      },
+      Oberfläche: {
+        options: toOptions(catalog.surfaces),
+        value: catalog.defaults.surface,
+        render: show,
+      },
+      Behandlung: {
+        options: toOptions(catalog.treatments),
+        value: catalog.defaults.treatment,
+        render: show,
+      },
+      "Alter (Jahre)": {
+        value: 0,
+        min: 0,
+        max: AGING_TIMELINE_YEARS,
+        step: 1 / 12,
+        render: show,
+      },
+    },
+    [catalog]
   );
+  const { Holzart: woodType, Oberfläche: surface, Behandlung: treatment } = controls;
+  const age = controls["Alter (Jahre)"];
+
+  const colors = catalog.treatments.find((t) => t.id === treatment)?.colors;
+  const { Farbe: color } = useControls(
+    folder,
+    {
+      Farbe: {
+        options: { ...colors },
+        value: colors ? Object.values(colors)[0] : "",
+        render: (get) => show(get) && !!colors,
+      },
+    },
+    [colors]
+  );
+  // A color of the previous treatment falls back to the first allowed one
+  const finishColor = colors
+    ? Object.values(colors).includes(color)
+      ? color
+      : Object.values(colors)[0]
+    : undefined;
+
+  return useMemo(
+    () => ({ zone: { woodType, surface, treatment, finishColor }, age }),
+    [woodType, surface, treatment, finishColor, age]
+  );
+};
+
+export function FacadeViewer({ catalog, models }: FacadeViewerProps) {
+  const materialManager = useMemo(() => new MaterialManager(catalog), [catalog]);
+  // Configuration from a shared link. Controls start with its values, and
+  // its zones apply until another model is chosen.
+  const shareModelIds = [...models.map((m) => m.id), PARAMETRIC_MODEL_ID];
+  const [link] = useState(() =>
+    parseShareState(window.location.search, catalog, shareModelIds)
+  );
+  const linkedRef = useRef<SharedState | undefined>(link.state);
+  const [variantLoads, setVariantLoads] = useState(0); // Re-applies zones of the same model
   const [backgroundImage, setBackgroundImage] = useState<string>();
-  const [selectedTreatment, setSelectedTreatment] =
-    useState<string>("Unbehandelt");
-  const [selectedFinishColor, setSelectedFinishColor] = useState<
-    string | undefined
-  >();
-  const controlsRef = useRef<OrbitControlsImpl | null>(null); // Use OrbitControlsImpl type
-  const [sectionPoints, setSectionPoints] = useState<Vector2[]>([]);
-  const [clippingEnabled, setClippingEnabled] = useState(false);
+  const [zoneConfigs, setZoneConfigs] = useState<ZoneConfigs>(() =>
+    defaultZoneConfigs(catalog)
+  );
+  const [modelZones, setModelZones] = useState<string[]>([DEFAULT_ZONE]);
+  const [importedModels, setImportedModels] = useState<ImportedModel[]>([]);
+  const [pendingModelId, setPendingModelId] = useState<string>();
+  const [dragActive, setDragActive] = useState(false);
+  const [notice, setNotice] = useState<
+    { message: string; tone: "error" | "info" } | undefined
+  >(() =>
+    link.errors.length > 0
+      ? {
+          message: new ValidationError(
+            "Link enthält ungültige Angaben, dafür gelten die Standardwerte",
+            link.errors
+          ).message,
+          tone: "error",
+        }
+      : undefined
+  );
+  const activeZoneRef = useRef<string>(DEFAULT_ZONE);
+  // Leva buttons keep their first handler, so they call the latest via refs
+  const exportRef = useRef<() => void>(() => {});
+  const montageExportRef = useRef<() => void>(() => {});
+  const imageExportRef = useRef<() => void>(() => {});
+  const [sunPlaying, setSunPlaying] = useState(false);
+  const [montagePhoto, setMontagePhoto] = useState<MontagePhoto>();
+  const [montageCorners, setMontageCorners] = useState<Vector2[]>([]);
+  const [montagePicking, setMontagePicking] = useState(false);
+  const [customEnvironment, setCustomEnvironment] = useState<{
+    name: string;
+    texture: DataTexture;
+  }>();
+  const controlsRef = useRef<OrbitControlsImpl & Partial<SceneControls>>(null);
+  const sceneControls = controlsRef as React.RefObject<SceneControls | null>;
+  const [cameraBookmarks, setCameraBookmarks] = useState<CameraBookmark[]>([]);
+  const nextBookmarkId = useRef(1);
+  const threeRef = useRef<RootState>();
+  const [sectionContours, setSectionContours] = useState<SectionContour[]>([]);
+  const [clippingEnabled, setClippingEnabled] = useState(link.state.section !== undefined);
+  const [sectionDistance, setSectionDistance] = useState(0); // Plane along the axis, in m
+  const [takeoffOpen, setTakeoffOpen] = useState(false);
+  const [projectsOpen, setProjectsOpen] = useState(false);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [measureMode, setMeasureMode] = useState(false);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const nextMeasurementId = useRef(1);
+  const [facadeObject, setFacadeObject] = useState<{
+    modelId: string;
+    object: Object3D;
+  }>();
 
   // --- Leva Controls --- 
 
-  const woodControls = useControls("Holz", {
-    Holzart: {
-      options: Object.keys(WOOD_TYPES),
-      value: "Fichte/Tanne",
-      label: "Holzart",
+  const [zoneControls, setZoneControls] = useControls(
+    "Zone",
+    () => ({
+      Auswahl: {
+        options: Object.fromEntries(
+          FACADE_ZONES.filter((z) => modelZones.includes(z.id)).map((z) => [
+            z.name,
+            z.id,
+          ])
+        ),
+        value: modelZones.includes(activeZoneRef.current)
+          ? activeZoneRef.current
+          : modelZones[0],
+      },
+    }),
+    [modelZones]
+  );
+  const activeZone: string = zoneControls.Auswahl;
+  const activeConfig = zoneConfigs[activeZone] ?? zoneConfigs[DEFAULT_ZONE];
+
+  // The controls below edit the active zone. Their onChange handlers only
+  // react to panel input; programmatic updates (zone switch) are ignored.
+  const updateActiveZone = (update: Partial<ZoneMaterialConfig>) =>
+    setZoneConfigs((prev) => ({
+      ...prev,
+      [activeZoneRef.current]: { ...prev[activeZoneRef.current], ...update },
+    }));
+  const fromPanel =
+    (handler: (value: string) => void) =>
+    (value: string, _path: string, context: { fromPanel: boolean }) => {
+      if (context.fromPanel) handler(value);
+    };
+
+  const [, setWoodControls] = useControls(
+    "Holz",
+    () => ({
+      Holzart: {
+        options: toOptions(catalog.woods),
+        value: catalog.defaults.wood,
+        label: "Holzart",
+        onChange: fromPanel((woodType) => updateActiveZone({ woodType })),
+      },
+      Oberfläche: {
+        options: toOptions(catalog.surfaces),
+        value: catalog.defaults.surface,
+        onChange: fromPanel((surface) => updateActiveZone({ surface })),
+      },
+    }),
+    [catalog]
+  );
+
+  // Changing the treatment resets the finish color to its default
+  const [, setTreatmentControls] = useControls(
+    "Behandlung",
+    () => ({
+      Behandlung: {
+        options: toOptions(catalog.treatments),
+        value: catalog.defaults.treatment,
+        onChange: fromPanel((treatment) =>
+          updateActiveZone({
+            treatment,
+            finishColor: defaultFinishColor(catalog, treatment),
+          })
+        ),
+      },
+    }),
+    [catalog]
+  );
+
+  // Finish colors are limited to the ones the catalog allows for the treatment
+  const finishColors = catalog.treatments.find(
+    (t) => t.id === activeConfig.treatment
+  )?.colors;
+  const [, setColorControls] = useControls(
+    "Behandlung",
+    () => ({
+      Farbe: {
+        options: { ...finishColors },
+        value: finishColors ? Object.values(finishColors)[0] : "",
+        render: () => !!finishColors,
+        onChange: fromPanel((finishColor) => updateActiveZone({ finishColor })),
+      },
+    }),
+    [finishColors]
+  );
+
+  // Show the active zone's configuration in the controls
+  useEffect(() => {
+    activeZoneRef.current = activeZone;
+    setWoodControls({
+      Holzart: activeConfig.woodType,
+      Oberfläche: activeConfig.surface,
+    });
+    setTreatmentControls({ Behandlung: activeConfig.treatment });
+  }, [activeZone, activeConfig, setWoodControls, setTreatmentControls]);
+
+  useEffect(() => {
+    if (finishColors && activeConfig.finishColor) {
+      setColorControls({ Farbe: activeConfig.finishColor });
+    }
+  }, [finishColors, activeConfig.finishColor, setColorControls]);
+
+  // Fall back to an existing zone when the model changes
+  useEffect(() => {
+    if (!modelZones.includes(activeZone)) {
+      setZoneControls({ Auswahl: modelZones[0] });
+    }
+  }, [modelZones, activeZone, setZoneControls]);
+
+  const handleZonesDetected = useCallback((zoneIds: string[]) => {
+    setModelZones(zoneIds.length > 0 ? zoneIds : [DEFAULT_ZONE]);
+  }, []);
+
+  const [ageControls, setAgeControls] = useControls("Alterung", () => ({
+    // Years since installation in monthly steps, see the aging timeline
+    "Alter (Jahre)": {
+      value: link.state.age ?? 0,
+      min: 0,
+      max: AGING_TIMELINE_YEARS,
+      step: 1 / 12,
     },
-    Oberfläche: {
-      options: Object.keys(SURFACE_TYPES),
-      value: "Gehobelt",
+    Ausrichtung: {
+      options: Object.keys(FACADE_ORIENTATIONS),
+      value: link.state.facadeOrientation ?? "West",
     },
-  });
+    "Dachüberstand (m)": {
+      value: link.state.overhangDepth ?? 0.3,
+      min: 0,
+      max: 1.5,
+      step: 0.05,
+    },
+  }));
 
-  // Add treatment controls to use setSelectedTreatment
-  useControls("Behandlung", {
-    Behandlung: {
-      options: ["Unbehandelt", "Lasur (UV-Schutz)", "Deckend (Pigmentiert)"],
-      value: selectedTreatment,
-      onChange: (value: string) => {
-        setSelectedTreatment(value);
+  // Aging timeline: playback stops at the end, and renovations reset the
+  // age of treatments with a maintenance interval
+  const [timelineOpen, setTimelineOpen] = useState(false);
+  const [timelinePlaying, setTimelinePlaying] = useState(false);
+  const [timelineSpeed, setTimelineSpeed] = useState(2); // Years per second
+  const [renovation, setRenovation] = useState(() => defaultRenovation(catalog));
+  const renovationIntervals = renovation.enabled ? renovation.intervals : undefined;
+  const age = ageControls["Alter (Jahre)"];
+  const ageRef = useRef(age);
+  ageRef.current = age;
+  useEffect(() => {
+    if (!timelinePlaying) return;
+    const interval = window.setInterval(() => {
+      const next = Math.min(ageRef.current + timelineSpeed / 10, AGING_TIMELINE_YEARS);
+      setAgeControls({ "Alter (Jahre)": Math.round(next * 12) / 12 });
+      if (next >= AGING_TIMELINE_YEARS) setTimelinePlaying(false);
+    }, 100);
+    return () => window.clearInterval(interval);
+  }, [timelinePlaying, timelineSpeed, setAgeControls]);
+  const handleTimelinePlay = () => {
+    if (!timelinePlaying && ageRef.current >= AGING_TIMELINE_YEARS) {
+      setAgeControls({ "Alter (Jahre)": 0 });
+    }
+    setTimelinePlaying((playing) => !playing);
+  };
+
+  // Sun study: the time slider doubles as scrubber during playback
+  const [sunControls, setSunControls] = useControls(
+    "Sonnenstudie",
+    () => ({
+      Aktiv: { value: link.state.sun !== undefined, label: "Sonnenstudie" },
+      "Breitengrad (°)": {
+        value: link.state.sun?.latitude ?? DEFAULT_SUN_LOCATION.latitude,
+        min: -90,
+        max: 90,
+        step: 0.01,
+        render: (get) => get("Sonnenstudie.Aktiv"),
       },
-    },
-  });
+      "Längengrad (°)": {
+        value: link.state.sun?.longitude ?? DEFAULT_SUN_LOCATION.longitude,
+        min: -180,
+        max: 180,
+        step: 0.01,
+        render: (get) => get("Sonnenstudie.Aktiv"),
+      },
+      "Fassadenazimut (°)": {
+        value: link.state.sun?.azimuth ?? FACADE_ORIENTATIONS.West,
+        min: 0,
+        max: 359,
+        step: 1,
+        render: (get) => get("Sonnenstudie.Aktiv"),
+      },
+      Datum: {
+        value: link.state.sun?.date ?? `${new Date().getFullYear()}-06-21`,
+        render: (get) => get("Sonnenstudie.Aktiv"),
+      },
+      "Uhrzeit (h)": {
+        value: link.state.sun?.time ?? 12,
+        min: 0,
+        max: 24,
+        step: 0.25,
+        render: (get) => get("Sonnenstudie.Aktiv"),
+      },
+      "Tempo (h/s)": {
+        value: 1,
+        min: 0.25,
+        max: 6,
+        step: 0.25,
+        render: (get) => get("Sonnenstudie.Aktiv"),
+      },
+      "Abspielen / Anhalten": button(() => setSunPlaying((playing) => !playing)),
+      Sonne: {
+        value: "",
+        editable: false,
+        render: (get) => get("Sonnenstudie.Aktiv"),
+      },
+    }),
+    { collapsed: true }
+  );
+  const {
+    Aktiv: sunStudy,
+    "Breitengrad (°)": latitude,
+    "Längengrad (°)": longitude,
+    "Fassadenazimut (°)": facadeAzimuth,
+    Datum: sunDate,
+    "Uhrzeit (h)": sunTime,
+    "Tempo (h/s)": sunSpeed,
+  } = sunControls;
 
-  // Update finish color automatically when treatment type changes, setting a default color.
+  // The weathering orientation presets the azimuth, which can be refined.
+  // A shared azimuth belongs to the orientation it came with, so the preset
+  // waits until the orientation changes.
+  const azimuthOrientationRef = useRef(
+    link.state.sun ? ageControls.Ausrichtung : undefined
+  );
   useEffect(() => {
-    let defaultColor: string | undefined;
-    if (selectedTreatment === "Lasur (UV-Schutz)") {
-      const defaultColorName = Object.keys(LASUR_COLORS)[0];
-      defaultColor = LASUR_COLORS[defaultColorName as keyof typeof LASUR_COLORS];
-    } else if (selectedTreatment === "Deckend (Pigmentiert)") {
-      const defaultColorName = Object.keys(PIGMENT_COLORS)[0];
-      defaultColor = PIGMENT_COLORS[defaultColorName as keyof typeof PIGMENT_COLORS];
-    } else {
-        defaultColor = undefined;
+    if (azimuthOrientationRef.current === ageControls.Ausrichtung) return;
+    azimuthOrientationRef.current = ageControls.Ausrichtung;
+    setSunControls({ "Fassadenazimut (°)": FACADE_ORIENTATIONS[ageControls.Ausrichtung] });
+  }, [ageControls.Ausrichtung, setSunControls]);
+
+  const sunDateTime = useMemo(() => localDateTime(sunDate, sunTime), [sunDate, sunTime]);
+  const sunPosition = useMemo(
+    () => sunDateTime && solarPosition(sunDateTime, latitude, longitude),
+    [sunDateTime, latitude, longitude]
+  );
+  const sunVector = useMemo(
+    () =>
+      sunPosition
+        ? sunDirection(sunPosition, facadeAzimuth)
+        : new Vector3(0, -1, 0),
+    [sunPosition, facadeAzimuth]
+  );
+  useEffect(() => {
+    const text = !sunPosition
+      ? "Datum ungültig (JJJJ-MM-TT)"
+      : sunPosition.elevation <= 0
+        ? `unter dem Horizont, Azimut ${Math.round(sunPosition.azimuth)}°`
+        : `Azimut ${Math.round(sunPosition.azimuth)}°, Höhe ${Math.round(sunPosition.elevation)}°`;
+    setSunControls({ Sonne: text });
+  }, [sunPosition, setSunControls]);
+
+  // Playback advances the time of day and wraps around midnight
+  const sunTimeRef = useRef(sunTime);
+  sunTimeRef.current = sunTime;
+  useEffect(() => {
+    if (!sunPlaying || !sunStudy) return;
+    const interval = window.setInterval(() => {
+      const next = (sunTimeRef.current + sunSpeed / 10) % 24;
+      setSunControls({ "Uhrzeit (h)": Math.round(next * 100) / 100 });
+    }, 100);
+    return () => window.clearInterval(interval);
+  }, [sunPlaying, sunStudy, sunSpeed, setSunControls]);
+
+  // Compare mode: views side by side or a before/after slider, all seen
+  // through the one orbit camera. View A is the configuration above.
+  const [compareControls, setCompareControls] = useControls(
+    "Vergleich",
+    () => ({
+      Modus: {
+        options: {
+          Aus: "off",
+          "2 Ansichten": "2",
+          "4 Ansichten": "4",
+          "Vorher / Nachher": "slider",
+        },
+        value: "off",
+      },
+      "Teilung (%)": {
+        value: 50,
+        min: 0,
+        max: 100,
+        step: 0.1,
+        render: (get) => get("Vergleich.Modus") === "slider",
+      },
+    }),
+    { collapsed: true }
+  );
+  const compareLayout = compareControls.Modus as CompareLayout;
+  const compareSplit = compareControls["Teilung (%)"] / 100;
+  // Picking assumes the camera covers the whole canvas
+  const compareSideBySide = compareLayout === "2" || compareLayout === "4";
+  const compareB = useCompareVariant("B", catalog);
+  const compareC = useCompareVariant("C", catalog);
+  const compareD = useCompareVariant("D", catalog);
+  const compareVariants = useMemo<CompareVariant[]>(
+    () =>
+      [compareB, compareC, compareD]
+        .slice(0, compareViewCount(compareLayout) - 1)
+        .map((variant) => ({
+          zones: { ...zoneConfigs, [DEFAULT_ZONE]: variant.zone },
+          age: variant.age,
+        })),
+    [compareB, compareC, compareD, compareLayout, zoneConfigs]
+  );
+  const compareLabels = useMemo(
+    () =>
+      [
+        { zones: zoneConfigs, age },
+        ...compareVariants,
+      ].map((view) => describeVariant(view.zones[DEFAULT_ZONE], view.age, catalog)),
+    [zoneConfigs, age, compareVariants, catalog]
+  );
+  const handleCompareSplit = useCallback(
+    (split: number) =>
+      setCompareControls({ "Teilung (%)": Math.round(split * 1000) / 10 }),
+    [setCompareControls]
+  );
+
+  // The generated panel starts with the catalog defaults like imported models
+  const parametricModel = useMemo<ModelEntry>(
+    () => ({
+      id: PARAMETRIC_MODEL_ID,
+      name: "Parametrisch (Generator)",
+      file: "",
+      ...describeCladding(DEFAULT_CLADDING),
+      defaultMaterial: {
+        wood: catalog.defaults.wood,
+        surface: catalog.defaults.surface,
+        treatment: catalog.defaults.treatment,
+      },
+    }),
+    [catalog]
+  );
+
+  const allModels = useMemo(
+    () => [...models, parametricModel, ...importedModels.map((m) => m.entry)],
+    [models, parametricModel, importedModels]
+  );
+
+  const handleImport = async (files: File[]) => {
+    try {
+      const imported = await importModelFiles(files, catalog);
+      setImportedModels((prev) => [...prev, imported]);
+      setPendingModelId(imported.entry.id);
+      setNotice(
+        imported.warning ? { message: imported.warning, tone: "info" } : undefined
+      );
+    } catch (error) {
+      setNotice({ message: (error as Error).message, tone: "error" });
     }
-    setSelectedFinishColor(defaultColor);
-  }, [selectedTreatment]);
+  };
 
-  const ageControls = useControls("Alterung", {
-    "Alter (Jahre)": {
-      value: 1,
-      min: 1,
-      max: 10,
+  const [modelControls, setModelControls] = useControls(
+    "Fassade",
+    () => ({
+      Auswahl: {
+        options: toOptions(allModels),
+        value: link.state.model ?? models[0].id,
+      },
+      "Modell importieren": button(() => {
+        const input = document.createElement("input");
+        input.type = "file";
+        input.multiple = true;
+        input.accept = IMPORT_ACCEPT;
+        input.onchange = (e) => {
+          const files = (e.target as HTMLInputElement).files;
+          if (files?.length) handleImport([...files]);
+        };
+        input.click();
+      }),
+      "Als GLB exportieren": button(() => exportRef.current()),
+    }),
+    [allModels]
+  );
+  const selectedModel =
+    allModels.find((m) => m.id === modelControls.Auswahl) ?? models[0];
+  const isParametric = selectedModel.id === PARAMETRIC_MODEL_ID;
+
+  const showGenerator = (get: (key: string) => unknown) =>
+    get("Fassade.Auswahl") === PARAMETRIC_MODEL_ID;
+  const initialCladding = link.state.cladding ?? DEFAULT_CLADDING;
+  const [generatorControls, setGeneratorControls] = useControls("Generator", () => ({
+    "Breite (m)": {
+      value: initialCladding.facadeWidth,
+      min: 0.5,
+      max: 12,
+      step: 0.1,
+      render: showGenerator,
+    },
+    "Höhe (m)": {
+      value: initialCladding.facadeHeight,
+      min: 0.5,
+      max: 8,
+      step: 0.1,
+      render: showGenerator,
+    },
+    Profil: {
+      options: PROFILE_TYPES,
+      value: initialCladding.profile,
+      render: showGenerator,
+    },
+    Richtung: {
+      options: Object.fromEntries(
+        BOARD_ORIENTATIONS.map((o) => [ORIENTATION_LABELS[o], o])
+      ),
+      value: initialCladding.orientation,
+      render: showGenerator,
+    },
+    "Brettbreite (mm)": {
+      value: initialCladding.boardWidth,
+      min: 30,
+      max: 300,
+      step: 1,
+      render: showGenerator,
+    },
+    "Dicke (mm)": {
+      value: initialCladding.thickness,
+      min: 10,
+      max: 60,
+      step: 1,
+      render: showGenerator,
+    },
+    // Lap siding overlaps and tongue-and-groove boards close without a joint
+    "Fuge (mm)": {
+      value: initialCladding.gap,
+      min: 0,
+      max: 60,
       step: 1,
+      render: (get) =>
+        showGenerator(get) &&
+        ["board_batten", "rhombus"].includes(get("Generator.Profil")),
     },
-  });
-
-  const modelControls = useControls("Fassade", {
-    Auswahl: {
-      // Create user-friendly names, strip path and extension
-      options: [
-        "Standard",
-        ...glbFiles.map((f) => f.split("/").pop()?.replace(".glb", "") || f),
-      ],
-      value: "Standard", // Default to standard
+    "Lattenabstand (mm)": {
+      value: initialCladding.battenSpacing,
+      min: 300,
+      max: 1000,
+      step: 10,
+      render: showGenerator,
     },
-  });
+  }));
 
-  const backgroundControls = useControls(
-    "Hintergrund",
+  const {
+    "Breite (m)": facadeWidth,
+    "Höhe (m)": facadeHeight,
+    "Brettbreite (mm)": boardWidth,
+    "Dicke (mm)": thickness,
+    "Fuge (mm)": gap,
+    Richtung: boardOrientation,
+    Profil: profile,
+    "Lattenabstand (mm)": battenSpacing,
+  } = generatorControls;
+  const claddingParams = useMemo<CladdingParameters>(
+    () => ({
+      facadeWidth,
+      facadeHeight,
+      boardWidth,
+      thickness,
+      gap,
+      orientation: boardOrientation as BoardOrientation,
+      profile: profile as ProfileType,
+      battenSpacing,
+    }),
+    [
+      facadeWidth,
+      facadeHeight,
+      boardWidth,
+      thickness,
+      gap,
+      boardOrientation,
+      profile,
+      battenSpacing,
+    ]
+  );
+  const parametricObject = useMemo(
+    () => (isParametric ? generateCladding(claddingParams) : undefined),
+    [isParametric, claddingParams]
+  );
+  useEffect(
+    () => () => {
+      if (parametricObject) disposeCladding(parametricObject);
+    },
+    [parametricObject]
+  );
+
+  const selectedImport = useMemo(
+    () => importedModels.find((m) => m.entry.id === selectedModel.id),
+    [importedModels, selectedModel.id]
+  );
+  const selectedObject = parametricObject ?? selectedImport?.object;
+  const displayedModel = useMemo(
+    () =>
+      isParametric
+        ? { ...selectedModel, ...describeCladding(claddingParams) }
+        : selectedModel,
+    [isParametric, selectedModel, claddingParams]
+  );
+
+  // Building massing the selected model is tiled across. The roof overhang
+  // is the one from "Alterung", which also shelters the facade.
+  const showBuildingControls = (get: (key: string) => unknown) =>
+    get("Gebäude.Anzeigen") === true;
+  const linkedBuilding = link.state.building ?? DEFAULT_BUILDING;
+  const [buildingControls, setBuildingControls] = useControls(
+    "Gebäude",
+    () => ({
+      Anzeigen: link.state.building !== undefined,
+      "Länge (m)": {
+        value: linkedBuilding.length,
+        min: 4,
+        max: 30,
+        step: 0.1,
+        render: showBuildingControls,
+      },
+      "Tiefe (m)": {
+        value: linkedBuilding.depth,
+        min: 4,
+        max: 20,
+        step: 0.1,
+        render: showBuildingControls,
+      },
+      Geschosse: {
+        value: linkedBuilding.storeys,
+        min: 1,
+        max: 5,
+        step: 1,
+        render: showBuildingControls,
+      },
+      "Geschosshöhe (m)": {
+        value: linkedBuilding.storeyHeight,
+        min: 2.4,
+        max: 4,
+        step: 0.05,
+        render: showBuildingControls,
+      },
+      Dachform: {
+        options: ROOF_TYPES,
+        value: linkedBuilding.roof,
+        render: showBuildingControls,
+      },
+      "Dachneigung (°)": {
+        value: linkedBuilding.roofPitch,
+        min: 5,
+        max: 50,
+        step: 1,
+        render: (get) =>
+          showBuildingControls(get) && get("Gebäude.Dachform") !== "flat",
+      },
+      "Fenster je Geschoss": {
+        value: linkedBuilding.windowsPerStorey,
+        min: 0,
+        max: 8,
+        step: 1,
+        render: showBuildingControls,
+      },
+      "Fensterbreite (m)": {
+        value: linkedBuilding.windowWidth,
+        min: 0.4,
+        max: 3,
+        step: 0.05,
+        render: showBuildingControls,
+      },
+      "Fensterhöhe (m)": {
+        value: linkedBuilding.windowHeight,
+        min: 0.4,
+        max: 2.4,
+        step: 0.05,
+        render: showBuildingControls,
+      },
+      Eingangstür: {
+        value: linkedBuilding.door,
+        render: showBuildingControls,
+      },
+    }),
+    { collapsed: true }
+  );
+  const {
+    Anzeigen: buildingActive,
+    "Länge (m)": buildingLength,
+    "Tiefe (m)": buildingDepth,
+    Geschosse: storeys,
+    "Geschosshöhe (m)": storeyHeight,
+    Dachform: roof,
+    "Dachneigung (°)": roofPitch,
+    "Fenster je Geschoss": windowsPerStorey,
+    "Fensterbreite (m)": windowWidth,
+    "Fensterhöhe (m)": windowHeight,
+    Eingangstür: door,
+  } = buildingControls;
+  const overhangDepth = ageControls["Dachüberstand (m)"];
+  const requestedBuilding = useMemo<BuildingParameters | undefined>(
+    () =>
+      buildingActive
+        ? {
+            length: buildingLength,
+            depth: buildingDepth,
+            storeys,
+            storeyHeight,
+            roof: roof as RoofType,
+            roofPitch,
+            overhang: overhangDepth,
+            windowsPerStorey,
+            windowWidth,
+            windowHeight,
+            door,
+          }
+        : undefined,
+    [
+      buildingActive,
+      buildingLength,
+      buildingDepth,
+      storeys,
+      storeyHeight,
+      roof,
+      roofPitch,
+      overhangDepth,
+      windowsPerStorey,
+      windowWidth,
+      windowHeight,
+      door,
+    ]
+  );
+  // Tiling a detailed module takes a moment, so the building is regenerated
+  // once a slider has come to rest
+  const [buildingParams, setBuildingParams] = useState<BuildingParameters>();
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setBuildingParams(requestedBuilding), 250);
+    return () => window.clearTimeout(timeout);
+  }, [requestedBuilding]);
+  const buildingShown = buildingParams !== undefined;
+
+  // Select a freshly imported model once it is in the dropdown options
+  useEffect(() => {
+    if (pendingModelId && allModels.some((m) => m.id === pendingModelId)) {
+      setModelControls({ Auswahl: pendingModelId });
+      setPendingModelId(undefined);
+    }
+  }, [allModels, pendingModelId, setModelControls]);
+
+  // Section plane; the gizmo in the viewport moves the same position
+  const [sectionControls, setSectionControls] = useControls(
+    "Schnitt",
+    () => ({
+      Achse: { options: SECTION_AXES, value: link.state.section?.axis ?? "y" },
+      Normale: {
+        value: link.state.section?.normal ?? { x: 1, y: 0, z: 1 },
+        render: (get) => get("Schnitt.Achse") === "custom",
+      },
+      "Position (%)": {
+        value: link.state.section?.position ?? 50,
+        min: 0,
+        max: 100,
+        step: 0.5,
+      },
+      Gizmo: { value: true, label: "Gizmo anzeigen" },
+    }),
+    { collapsed: true }
+  );
+  const {
+    Achse: sectionAxis,
+    Normale: sectionNormal,
+    "Position (%)": sectionPosition,
+    Gizmo: showSectionGizmo,
+  } = sectionControls;
+  const sectionAxisVector = useMemo(() => {
+    const axis =
+      sectionAxis === "custom"
+        ? new Vector3(sectionNormal.x, sectionNormal.y, sectionNormal.z)
+        : new Vector3(
+            sectionAxis === "x" ? 1 : 0,
+            sectionAxis === "y" ? 1 : 0,
+            sectionAxis === "z" ? 1 : 0
+          );
+    return axis.lengthSq() > 0 ? axis.normalize() : new Vector3(0, 1, 0);
+  }, [sectionAxis, sectionNormal]);
+  const section = useMemo(
+    () => ({
+      axis: sectionAxisVector,
+      position: sectionPosition / 100,
+      showGizmo: showSectionGizmo,
+    }),
+    [sectionAxisVector, sectionPosition, showSectionGizmo]
+  );
+  const handleSectionMove = useCallback(
+    (position: number) =>
+      setSectionControls({ "Position (%)": Math.round(position * 1000) / 10 }),
+    [setSectionControls]
+  );
+  const sectionDrawingInfo = useMemo(() => {
+    const axisName =
+      Object.entries(SECTION_AXES).find(([, id]) => id === sectionAxis)?.[0] ??
+      sectionAxis;
+    const normal =
+      sectionAxis === "custom"
+        ? ` (${sectionAxisVector
+            .toArray()
+            .map((c) => c.toFixed(2))
+            .join(", ")})`
+        : "";
+    return {
+      modelName: displayedModel.name,
+      cutPosition: `${axisName}${normal}, ${sectionDistance.toFixed(3)} m`,
+    };
+  }, [displayedModel.name, sectionAxis, sectionAxisVector, sectionDistance]);
+
+  // Photomontage: the facade is rendered into a site photo with a camera
+  // matched to the marked wall corners
+  const [montageControls, setMontageControls] = useControls(
+    "Fotomontage",
+    () => ({
+      Aktiv: { value: false, label: "Fotomontage" },
+      "Foto wählen": button(() => {
+        const input = document.createElement("input");
+        input.type = "file";
+        input.accept = "image/*";
+        input.onchange = async (e) => {
+          const file = (e.target as HTMLInputElement).files?.[0];
+          if (!file) return;
+          const url = URL.createObjectURL(file);
+          try {
+            const texture = await new TextureLoader().loadAsync(url);
+            texture.colorSpace = SRGBColorSpace;
+            const image = texture.image as HTMLImageElement;
+            setMontagePhoto({ texture, size: new Vector2(image.width, image.height) });
+            setMontageCorners([]);
+            setMontagePicking(true);
+            setMontageControls({ Aktiv: true });
+          } catch {
+            setNotice({ message: `"${file.name}" ist kein lesbares Bild.`, tone: "error" });
+          } finally {
+            URL.revokeObjectURL(url);
+          }
+        };
+        input.click();
+      }),
+      "Wandbreite (m)": {
+        value: DEFAULT_CLADDING.facadeWidth,
+        min: 0.1,
+        max: 100,
+        step: 0.01,
+        render: (get) => get("Fotomontage.Aktiv"),
+      },
+      "Wandhöhe (m)": {
+        value: DEFAULT_CLADDING.facadeHeight,
+        min: 0.1,
+        max: 100,
+        step: 0.01,
+        render: (get) => get("Fotomontage.Aktiv"),
+      },
+      "Ecken neu setzen": button(() => {
+        setMontageCorners([]);
+        setMontagePicking(true);
+      }),
+      "Montage exportieren": button(() => montageExportRef.current()),
+    }),
+    { collapsed: true }
+  );
+  const montageActive = montageControls.Aktiv && !!montagePhoto;
+
+  // Release a replaced photo
+  useEffect(() => {
+    if (!montagePhoto) return;
+    return () => montagePhoto.texture.dispose();
+  }, [montagePhoto]);
+
+  const handleMontageCorners = useCallback((corners: Vector2[]) => {
+    setMontageCorners(corners);
+    if (corners.length === 4) setMontagePicking(false);
+  }, []);
+
+  // The drawing buffer is preserved, so it holds the composited frame
+  const handleMontageExport = () => {
+    const canvas = threeRef.current?.gl.domElement;
+    if (!montageActive || !canvas) {
+      setNotice({ message: "Zuerst ein Foto für die Fotomontage wählen.", tone: "info" });
+      return;
+    }
+    canvas.toBlob((blob) => {
+      if (blob) downloadFile(blob, `Fotomontage_${displayedModel.id}.png`, "image/png");
+    }, "image/png");
+  };
+  montageExportRef.current = handleMontageExport;
+
+  // Offscreen rendering at a fixed resolution with logo and caption
+  const imageControls = useControls(
+    "Bild exportieren",
     {
+      Auflösung: {
+        options: Object.keys(IMAGE_EXPORT_SIZES),
+        value: "4K (3840 × 2160)",
+      },
+      Format: { options: ["PNG", "JPEG"], value: "PNG" },
+      Transparent: {
+        value: false,
+        label: "Transparenter Hintergrund",
+        render: (get) => get("Bild exportieren.Format") === "PNG",
+      },
+      Logo: { value: true, label: "Logo" },
+      Beschriftung: { value: true, label: "Konfiguration beschriften" },
+      "Bild exportieren": button(() => imageExportRef.current()),
+    },
+    { collapsed: true }
+  );
+
+  // Lighting from a bundled or uploaded HDR panorama
+  const [environmentControls, setEnvironmentControls] = useControls(
+    "Umgebung",
+    () => ({
+      Auswahl: {
+        options: {
+          ...toOptions(ENVIRONMENT_PRESETS),
+          ...(customEnvironment && {
+            [`Eigene: ${customEnvironment.name}`]: CUSTOM_ENVIRONMENT_ID,
+          }),
+        },
+        value: link.state.environment?.id ?? DEFAULT_ENVIRONMENT_ID,
+      },
+      Belichtung: {
+        value: link.state.environment?.exposure ?? 1,
+        min: 0.1,
+        max: 3,
+        step: 0.05,
+      },
+      "Drehung (°)": {
+        value: link.state.environment?.rotation ?? 0,
+        min: 0,
+        max: 360,
+        step: 1,
+      },
+      "Als Hintergrund": {
+        value: link.state.environment?.background ?? false,
+        label: "Als Hintergrund",
+      },
+      "HDRI hochladen": button(() => {
+        const input = document.createElement("input");
+        input.type = "file";
+        input.accept = ENVIRONMENT_ACCEPT;
+        input.onchange = async (e) => {
+          const file = (e.target as HTMLInputElement).files?.[0];
+          if (!file) return;
+          try {
+            const texture = await loadEnvironmentFile(file);
+            setCustomEnvironment({ name: file.name, texture });
+          } catch (error) {
+            setNotice({ message: (error as Error).message, tone: "error" });
+          }
+        };
+        input.click();
+      }),
+    }),
+    { collapsed: true },
+    [customEnvironment]
+  );
+  const environmentBackground = environmentControls["Als Hintergrund"];
+
+  // Show a fresh upload right away; the previous one is released
+  useEffect(() => {
+    if (!customEnvironment) return;
+    setEnvironmentControls({ Auswahl: CUSTOM_ENVIRONMENT_ID });
+    return () => customEnvironment.texture.dispose();
+  }, [customEnvironment, setEnvironmentControls]);
+
+  const [backgroundControls, setBackgroundControls] = useControls(
+    "Hintergrund",
+    () => ({
       Anzeigen: {
         value: !!backgroundImage, // Reflect if background is loaded
         label: "Hintergrund anzeigen",
       },
       "Vertikale Position": {
-        value: 0,
+        value: link.state.background?.position ?? 0,
         min: -10,
         max: 10,
         step: 0.1,
         render: (get: (key: string) => any) => get("Hintergrund.Anzeigen"), // Only show if background is visible
       },
       Rotation: {
-        value: 0,
+        value: link.state.background?.rotation ?? 0,
         min: -Math.PI,
         max: Math.PI,
         step: 0.1,
         render: (get: (key: string) => any) => get("Hintergrund.Anzeigen"),
       },
       Größe: {
-        value: 1,
+        value: link.state.background?.size ?? 1,
         min: 0.1,
         max: 2,
         step: 0.1,
@@ -161,30 +1216,562 @@ export function FacadeViewer() {
         // Cast settings to any to bypass strict type check for render
         { render: (get: (key: string) => any) => !!get("Hintergrund.Anzeigen") } as any 
       ),
-    },
+    }),
     { collapsed: true }, [backgroundImage] // Depend on backgroundImage for visibility updates
   );
 
+  // Live material/texture counts for spotting GPU leaks
+  const [, setDebugControls] = useControls(
+    "Debug",
+    () => ({
+      Materialien: { value: 0, disabled: true },
+      Texturen: { value: 0, disabled: true },
+    }),
+    { collapsed: true }
+  );
+
   // --- Effects --- 
 
-  // Update selected model based on Leva dropdown choice
+  useEffect(
+    () =>
+      materialManager.subscribe((stats) =>
+        setDebugControls({
+          Materialien: stats.materials,
+          Texturen: stats.textures,
+        })
+      ),
+    [materialManager, setDebugControls]
+  );
+
+  // Free all cached materials when the catalog is replaced or on unmount
+  useEffect(() => () => materialManager.dispose(), [materialManager]);
+
+  // Start every zone with the default material of the selected model or the
+  // configuration stored in a re-imported export. Zones from a link or a
+  // loaded variant take precedence.
+  useEffect(() => {
+    const linked = linkedRef.current;
+    if (linked && (linked.model ?? models[0].id) !== selectedModel.id) {
+      linkedRef.current = undefined;
+    }
+    const saved = selectedImport?.config;
+    if (saved) {
+      setZoneConfigs({
+        ...defaultZoneConfigs(catalog),
+        ...saved.zones,
+        ...linkedRef.current?.zones,
+      });
+      if (linkedRef.current) return;
+      setAgeControls({
+        "Alter (Jahre)": saved.age,
+        Ausrichtung: saved.facadeOrientation,
+        "Dachüberstand (m)": saved.overhangDepth,
+      });
+      return;
+    }
+    setZoneConfigs({
+      ...defaultZoneConfigs(catalog, {
+        woodType: selectedModel.defaultMaterial.wood,
+        surface: selectedModel.defaultMaterial.surface,
+        treatment: selectedModel.defaultMaterial.treatment,
+        finishColor:
+          selectedModel.defaultMaterial.finishColor ??
+          defaultFinishColor(catalog, selectedModel.defaultMaterial.treatment),
+      }),
+      ...linkedRef.current?.zones,
+    });
+  }, [catalog, models, selectedModel, selectedImport, setAgeControls, variantLoads]);
+
+  // Exports the facade as shown, with the configuration in the glTF extras
+  const handleExport = async () => {
+    if (facadeObject?.modelId !== selectedModel.id) {
+      setNotice({ message: "Das Modell wird noch geladen.", tone: "info" });
+      return;
+    }
+    try {
+      const glb = await exportFacadeGlb(
+        facadeObject.object,
+        {
+          version: SCENE_CONFIG_VERSION,
+          model: {
+            id: displayedModel.id,
+            name: displayedModel.name,
+            profileType: displayedModel.profileType,
+            orientation: displayedModel.orientation,
+            board: displayedModel.board,
+          },
+          zones: zoneConfigs,
+          age,
+          facadeOrientation: ageControls.Ausrichtung,
+          overhangDepth: ageControls["Dachüberstand (m)"],
+          cladding: isParametric ? claddingParams : undefined,
+        },
+        catalog,
+        // Same material per zone as the view, see CustomModel
+        (zoneId) => {
+          const zone = zoneConfigs[zoneId] ?? zoneConfigs[DEFAULT_ZONE];
+          return { ...zone, age: renovatedAge(age, zone.treatment, renovationIntervals) };
+        }
+      );
+      downloadFile(glb, `${displayedModel.id}.glb`, "model/gltf-binary");
+    } catch (error) {
+      setNotice({
+        message: `GLB-Export fehlgeschlagen: ${(error as Error).message}`,
+        tone: "error",
+      });
+    }
+  };
+  exportRef.current = handleExport;
+
+  const handleImageExport = async () => {
+    const state = threeRef.current?.get();
+    if (!state || !(state.camera instanceof PerspectiveCamera)) return;
+    const jpeg = imageControls.Format === "JPEG";
+    const [width, height] = IMAGE_EXPORT_SIZES[imageControls.Auflösung] ?? [
+      state.gl.domElement.width,
+      state.gl.domElement.height,
+    ];
+    try {
+      const render = renderImage(
+        state.gl,
+        state.scene,
+        state.camera,
+        width,
+        height,
+        imageControls.Transparent && !jpeg
+      );
+      const image = composeImage(render, {
+        logo: imageControls.Logo ? await loadImage(BRAND_LOGO_URL) : undefined,
+        caption: imageControls.Beschriftung
+          ? describeConfiguration(
+              displayedModel.name,
+              modelZones,
+              zoneConfigs,
+              age,
+              catalog
+            )
+          : [],
+        background: jpeg ? "#ffffff" : undefined,
+      });
+      const type = jpeg ? "image/jpeg" : "image/png";
+      const blob = await canvasToBlob(image, type, 0.92);
+      downloadFile(blob, `${displayedModel.id}_${width}x${height}.${jpeg ? "jpg" : "png"}`, type);
+    } catch (error) {
+      setNotice({
+        message: `Bildexport fehlgeschlagen: ${(error as Error).message}`,
+        tone: "error",
+      });
+    }
+  };
+  imageExportRef.current = handleImageExport;
+
+  // Everything a link restores, without the camera, which is read when the
+  // link is written. Imported models and uploads can't travel in a link.
+  const environmentId = environmentControls.Auswahl;
+  const {
+    Belichtung: exposure,
+    "Drehung (°)": environmentRotation,
+  } = environmentControls;
+  const {
+    "Vertikale Position": backgroundPosition,
+    Rotation: backgroundRotation,
+    Größe: backgroundSize,
+  } = backgroundControls;
+  const shareState = useMemo<ShareState>(
+    () => ({
+      model: selectedImport ? undefined : selectedModel.id,
+      zones: zoneConfigs,
+      age,
+      facadeOrientation: ageControls.Ausrichtung,
+      overhangDepth,
+      cladding: isParametric ? claddingParams : undefined,
+      building: requestedBuilding,
+      environment: {
+        id: environmentId === CUSTOM_ENVIRONMENT_ID ? undefined : environmentId,
+        exposure,
+        rotation: environmentRotation,
+        background: environmentBackground,
+      },
+      background: {
+        position: backgroundPosition,
+        rotation: backgroundRotation,
+        size: backgroundSize,
+      },
+      sun: sunStudy
+        ? { date: sunDate, time: sunTime, latitude, longitude, azimuth: facadeAzimuth }
+        : undefined,
+      section: clippingEnabled
+        ? {
+            axis: sectionAxis as SectionAxis,
+            position: sectionPosition,
+            normal: sectionAxis === "custom" ? sectionNormal : undefined,
+          }
+        : undefined,
+    }),
+    [
+      selectedImport,
+      selectedModel.id,
+      zoneConfigs,
+      age,
+      ageControls.Ausrichtung,
+      overhangDepth,
+      isParametric,
+      claddingParams,
+      requestedBuilding,
+      environmentId,
+      exposure,
+      environmentRotation,
+      environmentBackground,
+      backgroundPosition,
+      backgroundRotation,
+      backgroundSize,
+      sunStudy,
+      sunDate,
+      sunTime,
+      latitude,
+      longitude,
+      facadeAzimuth,
+      clippingEnabled,
+      sectionAxis,
+      sectionPosition,
+      sectionNormal,
+    ]
+  );
+
+  // The camera of a link is shown once its model is ready
+  const linkedCameraRef = useRef(link.state.camera);
+  const currentCamera = useCallback(
+    () => linkedCameraRef.current ?? sceneControls.current?.currentPose(),
+    [sceneControls]
+  );
   useEffect(() => {
-    if (modelControls.Auswahl === "Standard") {
-      setSelectedModel(availableModels[0]);
+    const pose = linkedCameraRef.current;
+    if (!pose || facadeObject?.modelId !== selectedModel.id) return;
+    linkedCameraRef.current = undefined;
+    sceneControls.current?.showView(pose);
+  }, [facadeObject, selectedModel.id, sceneControls, variantLoads]);
+
+  // The address bar follows the configuration and the camera, so reloading
+  // or bookmarking the page keeps them. Writes wait until changes settle.
+  const urlTimeoutRef = useRef<number>();
+  const scheduleUrlUpdate = useCallback(() => {
+    window.clearTimeout(urlTimeoutRef.current);
+    urlTimeoutRef.current = window.setTimeout(() => {
+      const query = encodeShareState({ ...shareState, camera: currentCamera() });
+      window.history.replaceState(window.history.state, "", `?${query}`);
+    }, 300);
+  }, [shareState, currentCamera]);
+  useEffect(() => {
+    scheduleUrlUpdate();
+  }, [scheduleUrlUpdate]);
+  useEffect(() => () => window.clearTimeout(urlTimeoutRef.current), []);
+
+  const handleCopyLink = async () => {
+    const url = shareLink({ ...shareState, camera: currentCamera() });
+    const omitted = [
+      selectedImport && "importiertes Modell",
+      environmentId === CUSTOM_ENVIRONMENT_ID && "eigene Umgebung",
+      backgroundImage && "Hintergrundbild",
+    ].filter(Boolean);
+    try {
+      await navigator.clipboard.writeText(url);
+      setNotice({
+        message:
+          omitted.length > 0
+            ? `Link kopiert. Nicht enthalten: ${omitted.join(", ")}.`
+            : "Link kopiert.",
+        tone: "info",
+      });
+    } catch {
+      setNotice({
+        message: `Link konnte nicht kopiert werden: ${url}`,
+        tone: "error",
+      });
+    }
+  };
+
+  // Shows a saved configuration. Controls take its values right away; zones
+  // and camera follow once its model is shown.
+  const applySharedState = (state: SharedState) => {
+    const model = state.model ?? selectedModel.id;
+    linkedRef.current = { ...state, model };
+    linkedCameraRef.current = state.camera;
+    if (model === selectedModel.id) {
+      setVariantLoads((count) => count + 1);
     } else {
-      // Find the full path matching the display name
-      const selectedFileName = `${modelControls.Auswahl}.glb`;
-      const fullPath = glbFiles.find((f) => f.endsWith(selectedFileName));
-      setSelectedModel(fullPath || availableModels[0]); // Fallback to default
+      setModelControls({ Auswahl: model });
+    }
+    setAgeControls(
+      defined({
+        "Alter (Jahre)": state.age,
+        Ausrichtung: state.facadeOrientation,
+        "Dachüberstand (m)": state.overhangDepth,
+      })
+    );
+    const { cladding, building, environment, background, sun, section } = state;
+    if (cladding) {
+      setGeneratorControls({
+        "Breite (m)": cladding.facadeWidth,
+        "Höhe (m)": cladding.facadeHeight,
+        Profil: cladding.profile,
+        Richtung: cladding.orientation,
+        "Brettbreite (mm)": cladding.boardWidth,
+        "Dicke (mm)": cladding.thickness,
+        "Fuge (mm)": cladding.gap,
+        "Lattenabstand (mm)": cladding.battenSpacing,
+      });
+    }
+    if (environment) {
+      setEnvironmentControls(
+        defined({
+          Auswahl: environment.id,
+          Belichtung: environment.exposure,
+          "Drehung (°)": environment.rotation,
+          "Als Hintergrund": environment.background,
+        })
+      );
     }
-  }, [modelControls.Auswahl, glbFiles, availableModels]);
+    if (background) {
+      setBackgroundControls({
+        "Vertikale Position": background.position,
+        Rotation: background.rotation,
+        Größe: background.size,
+      });
+    }
+    // A variant without building, sun study or section has them switched off
+    setBuildingControls(
+      building
+        ? {
+            Anzeigen: true,
+            "Länge (m)": building.length,
+            "Tiefe (m)": building.depth,
+            Geschosse: building.storeys,
+            "Geschosshöhe (m)": building.storeyHeight,
+            Dachform: building.roof,
+            "Dachneigung (°)": building.roofPitch,
+            "Fenster je Geschoss": building.windowsPerStorey,
+            "Fensterbreite (m)": building.windowWidth,
+            "Fensterhöhe (m)": building.windowHeight,
+            Eingangstür: building.door,
+          }
+        : { Anzeigen: false }
+    );
+    setSunControls(
+      sun
+        ? {
+            Aktiv: true,
+            Datum: sun.date,
+            "Uhrzeit (h)": sun.time,
+            "Breitengrad (°)": sun.latitude,
+            "Längengrad (°)": sun.longitude,
+            "Fassadenazimut (°)": sun.azimuth,
+          }
+        : { Aktiv: false }
+    );
+    if (sun) azimuthOrientationRef.current = state.facadeOrientation ?? ageControls.Ausrichtung;
+    if (section) {
+      setSectionControls(
+        defined({
+          Achse: section.axis,
+          "Position (%)": section.position,
+          Normale: section.normal,
+        })
+      );
+    }
+    if ((section !== undefined) !== clippingEnabled) sceneControls.current?.toggleClipping();
+  };
 
-  // Callback for SceneController to update section state
-  const handleSectionUpdate = (points: Vector2[], enabled: boolean) => {
-    setSectionPoints(points);
-    setClippingEnabled(enabled);
+  // Projects are read from the browser storage whenever the panel opens
+  useEffect(() => {
+    if (!projectsOpen) return;
+    loadProjects()
+      .then(setProjects)
+      .catch((error) => {
+        setNotice({ message: (error as Error).message, tone: "error" });
+      });
+  }, [projectsOpen]);
+
+  // Runs a change to the stored projects and shows the updated list
+  const updateProjects = async (change: () => Promise<string | undefined>) => {
+    try {
+      const message = await change();
+      setProjects(await loadProjects());
+      setNotice(message ? { message, tone: "info" } : undefined);
+    } catch (error) {
+      setNotice({ message: (error as Error).message, tone: "error" });
+    }
+  };
+
+  const handleSaveVariant = (project: Project, name: string) => {
+    const three = threeRef.current?.get();
+    if (
+      facadeObject?.modelId !== selectedModel.id ||
+      !three ||
+      !(three.camera instanceof PerspectiveCamera)
+    ) {
+      setNotice({ message: "Das Modell wird noch geladen.", tone: "info" });
+      return;
+    }
+    const camera = three.camera;
+    updateProjects(async () => {
+      const [width, height] = THUMBNAIL_SIZE;
+      const thumbnail = await canvasToBlob(
+        renderImage(three.gl, three.scene, camera, width, height, false),
+        "image/jpeg",
+        0.85
+      );
+      const background = backgroundImage
+        ? await (await fetch(backgroundImage)).blob()
+        : undefined;
+      const savedAt = new Date().toISOString();
+      await saveProject({
+        ...project,
+        updatedAt: savedAt,
+        variants: [
+          ...project.variants,
+          {
+            id: newProjectId(),
+            name,
+            query: encodeShareState({ ...shareState, camera: currentCamera() }),
+            modelName: displayedModel.name,
+            background,
+            thumbnail,
+            savedAt,
+          },
+        ],
+      });
+      return selectedImport
+        ? `Variante „${name}“ gespeichert. Das importierte Modell selbst ist nicht enthalten.`
+        : `Variante „${name}“ gespeichert.`;
+    });
+  };
+
+  const handleLoadVariant = (variant: ProjectVariant) => {
+    const { state, errors } = parseShareState(variant.query, catalog, shareModelIds);
+    applySharedState(state);
+    if (backgroundImage) URL.revokeObjectURL(backgroundImage);
+    setBackgroundImage(variant.background && URL.createObjectURL(variant.background));
+    setNotice(
+      errors.length > 0
+        ? {
+            message: new ValidationError(
+              `Variante „${variant.name}“ enthält ungültige Angaben, dafür gelten die Standardwerte`,
+              errors
+            ).message,
+            tone: "error",
+          }
+        : undefined
+    );
+  };
+
+  const handleExportProject = async (project: Project) => {
+    try {
+      const json = await exportProject(project);
+      const filename = project.name.replace(/[\\/:*?"<>|]/g, "_");
+      downloadFile(json, `${filename}.json`, "application/json");
+    } catch (error) {
+      setNotice({
+        message: `Projekt-Export fehlgeschlagen: ${(error as Error).message}`,
+        tone: "error",
+      });
+    }
+  };
+
+  // Quantities are measured once per model; prices follow the zone materials
+  const handleObjectReady = useCallback(
+    (object: Object3D) => setFacadeObject({ modelId: selectedModel.id, object }),
+    [selectedModel.id]
+  );
+  const measurement = useMemo(
+    () =>
+      takeoffOpen && facadeObject?.modelId === selectedModel.id
+        ? measureFacade(facadeObject.object)
+        : null,
+    [takeoffOpen, facadeObject, selectedModel.id]
+  );
+  const takeoff = useMemo(
+    () =>
+      measurement &&
+      computeTakeoff(measurement, displayedModel, zoneConfigs, catalog),
+    [measurement, displayedModel, zoneConfigs, catalog]
+  );
+
+  const handleAddMeasurement = useCallback(
+    (start: Vector3, end: Vector3) =>
+      setMeasurements((current) => [
+        ...current,
+        { id: nextMeasurementId.current++, start, end },
+      ]),
+    []
+  );
+
+  // Predefined views come first, then the bookmarks of the shown model;
+  // the number keys select them in this order
+  const cameraViews = useMemo(
+    () => [
+      ...PRESET_VIEWS.map(({ id, name }) => ({ id, name, saved: false })),
+      ...cameraBookmarks
+        .filter((bookmark) => bookmark.modelId === selectedModel.id)
+        .map(({ id, name }) => ({ id, name, saved: true })),
+    ],
+    [cameraBookmarks, selectedModel.id]
+  );
+  const handleShowView = useCallback(
+    (id: string) => {
+      const bookmark = cameraBookmarks.find((b) => b.id === id);
+      sceneControls.current?.showView(bookmark ?? (id as PresetViewId));
+    },
+    [cameraBookmarks, sceneControls]
+  );
+  const handleSaveView = () => {
+    const pose = sceneControls.current?.currentPose();
+    if (!pose) return;
+    const number = nextBookmarkId.current++;
+    setCameraBookmarks((current) => [
+      ...current,
+      { ...pose, id: `bookmark-${number}`, name: `Ansicht ${number}`, modelId: selectedModel.id },
+    ]);
   };
 
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (
+        event.ctrlKey ||
+        event.metaKey ||
+        event.altKey ||
+        target?.closest("input, textarea, select, [contenteditable]")
+      ) {
+        return;
+      }
+      const view = cameraViews[Number(event.key) - 1];
+      if (view && /^[1-9]$/.test(event.key)) handleShowView(view.id);
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [cameraViews, handleShowView]);
+
+  // Frame the building, or the panel again, when the building is toggled
+  const buildingShownRef = useRef(buildingShown);
+  useEffect(() => {
+    if (buildingShownRef.current === buildingShown) return;
+    buildingShownRef.current = buildingShown;
+    sceneControls.current?.showView(buildingShown ? "corner" : "front");
+  }, [buildingShown, sceneControls]);
+
+  // Measurements refer to the geometry of one model
+  useEffect(() => setMeasurements([]), [selectedModel.id, buildingShown]);
+
+  // Callback for SceneController to update section state
+  const handleSectionUpdate = useCallback(
+    (contours: SectionContour[], enabled: boolean, distance: number) => {
+      setSectionContours(contours);
+      setClippingEnabled(enabled);
+      setSectionDistance(distance);
+    },
+    []
+  );
+
   return (
     <div
       style={{
@@ -195,14 +1782,31 @@ export function FacadeViewer() {
         height: "100%",
         background: "var(--nordic-bg, #f5f5f5)", // Provide a fallback color
       }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragActive(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+          setDragActive(false);
+        }
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragActive(false);
+        if (e.dataTransfer.files.length) handleImport([...e.dataTransfer.files]);
+      }}
     >
       <Header />
       <div style={{ paddingTop: "80px", height: "calc(100% - 80px)" }}> {/* Adjust height */}
         <Canvas
           dpr={[1, 2]}
+          onCreated={(state) => {
+            threeRef.current = state;
+          }}
           gl={{
             antialias: true,
-            alpha: false,
+            alpha: true, // Allows transparent image exports
             preserveDrawingBuffer: true,
             powerPreference: "high-performance",
             localClippingEnabled: true, // Ensure clipping is enabled in the renderer
@@ -218,7 +1822,23 @@ export function FacadeViewer() {
         >
           <color attach="background" args={["transparent"]} />
           <Suspense fallback={null}>
-            {backgroundImage && backgroundControls.Anzeigen && (
+            <SceneEnvironment
+              file={
+                ENVIRONMENT_PRESETS.find((e) => e.id === environmentControls.Auswahl)?.file
+              }
+              texture={
+                environmentControls.Auswahl === CUSTOM_ENVIRONMENT_ID
+                  ? customEnvironment?.texture
+                  : undefined
+              }
+              exposure={environmentControls.Belichtung}
+              rotation={(environmentControls["Drehung (°)"] * Math.PI) / 180}
+              background={environmentBackground && !montageActive}
+            />
+            {backgroundImage &&
+              backgroundControls.Anzeigen &&
+              !environmentBackground &&
+              !montageActive && (
               <SphericalBackground
                 url={backgroundImage}
                 visible={true} // Controlled by outer condition
@@ -228,8 +1848,8 @@ export function FacadeViewer() {
               />
             )}
             <Stage
-              environment="sunset" // Or choose another appropriate environment
-              intensity={0.8}      // Adjust intensity as needed
+              environment={null} // Lighting comes from SceneEnvironment
+              intensity={sunStudy ? 0.25 : 0.8} // The sun takes over in the sun study
               adjustCamera={false} // Keep manual camera control
               preset="portrait"
               shadows={{
@@ -239,44 +1859,208 @@ export function FacadeViewer() {
               }}
             >
               <CustomModel
-                modelPath={selectedModel}
-                woodType={woodControls.Holzart}
-                surface={woodControls.Oberfläche}
-                age={ageControls["Alter (Jahre)"]}
-                treatment={selectedTreatment}
-                finishColor={selectedFinishColor}
+                modelPath={selectedModel.file}
+                object={selectedObject}
+                building={buildingParams}
+                materials={materialManager}
+                zones={zoneConfigs}
+                age={age}
+                renovations={renovationIntervals}
+                orientation={FACADE_ORIENTATIONS[ageControls.Ausrichtung]}
+                overhangDepth={ageControls["Dachüberstand (m)"]}
+                onZonesDetected={handleZonesDetected}
+                onSelectZone={
+                  measureMode || compareSideBySide
+                    ? undefined
+                    : (zone) => setZoneControls({ Auswahl: zone })
+                }
+                onObjectReady={handleObjectReady}
               />
             </Stage>
             <OrbitControls
               ref={controlsRef}
               makeDefault
+              enabled={!montageActive} // The matched camera stays put
               minPolarAngle={0}
               maxPolarAngle={Math.PI / 1.9} // Slightly less than Pi/2 to avoid gimbal lock
               enableDamping
               dampingFactor={0.05}
               minDistance={0.5} // Prevent zooming too close
-              maxDistance={15}  // Increase max distance slightly
+              maxDistance={buildingShown ? 60 : 15} // Room for the whole building
               mouseButtons={{
                 LEFT: 0,   // MOUSE.ROTATE
                 MIDDLE: 2, // MOUSE.PAN
                 RIGHT: 1,  // MOUSE.DOLLY
               }}
               target={[0, 0, 0]} // Initial target
+              onChange={scheduleUrlUpdate}
             />
              {/* SceneController manages interactions and clipping */}
             <SceneController
               controls={controlsRef} // Pass the OrbitControls ref
+              section={section}
+              initialClipping={link.state.section !== undefined}
+              onSectionMove={handleSectionMove}
               onSectionUpdate={handleSectionUpdate}
             />
+            {montageActive && montagePhoto && (
+              <PhotoMontage
+                photo={montagePhoto}
+                corners={montageCorners}
+                picking={montagePicking}
+                wallWidth={montageControls["Wandbreite (m)"]}
+                wallHeight={montageControls["Wandhöhe (m)"]}
+                onCornersChange={handleMontageCorners}
+              />
+            )}
+            <SunLight enabled={sunStudy} direction={sunVector} intensity={2.5} />
+            <MeasureTool
+              active={measureMode && !compareSideBySide}
+              measurements={measurements}
+              onAdd={handleAddMeasurement}
+              onDelete={(id) =>
+                setMeasurements((current) => current.filter((m) => m.id !== id))
+              }
+            />
+            {compareLayout !== "off" && (
+              <CompareView
+                layout={compareLayout}
+                split={compareSplit}
+                variants={compareVariants}
+                zoneIds={modelZones}
+                renovations={renovationIntervals}
+                materials={materialManager}
+              />
+            )}
           </Suspense>
         </Canvas>
+        {compareLayout !== "off" && (
+          <CompareOverlay
+            layout={compareLayout}
+            split={compareSplit}
+            labels={compareLabels}
+            onSplitChange={handleCompareSplit}
+          />
+        )}
 
         {/* UI Elements */}
         <div style={{ position: "fixed", top: "96px", right: "16px", zIndex: 1001 }}>
           <Leva fill titleBar={{ title: "Einstellungen", filter: true }} collapsed/>
         </div>
-        <Toolbar controls={controlsRef as React.RefObject<ControlsRef | null>} />
-        <SectionOutlinePanel visible={clippingEnabled} points={sectionPoints} />
+        <Toolbar
+          controls={sceneControls}
+          views={cameraViews}
+          onShowView={handleShowView}
+          onSaveView={handleSaveView}
+          onDeleteView={(id) =>
+            setCameraBookmarks((current) => current.filter((b) => b.id !== id))
+          }
+          onToggleTakeoff={() => setTakeoffOpen((open) => !open)}
+          onToggleTimeline={() => setTimelineOpen((open) => !open)}
+          onToggleMeasure={() => setMeasureMode((active) => !active)}
+          measureActive={measureMode}
+          onToggleProjects={() => setProjectsOpen((open) => !open)}
+          onCopyLink={handleCopyLink}
+        />
+        <SectionOutlinePanel
+          visible={clippingEnabled}
+          contours={sectionContours}
+          modelId={displayedModel.id}
+          drawingInfo={sectionDrawingInfo}
+        />
+        <ModelInfoPanel model={displayedModel} />
+        {projectsOpen && (
+          <ProjectPanel
+            projects={projects}
+            onCreateProject={(name) =>
+              updateProjects(async () => {
+                await saveProject({
+                  id: newProjectId(),
+                  name,
+                  variants: [],
+                  updatedAt: new Date().toISOString(),
+                });
+                return undefined;
+              })
+            }
+            onDeleteProject={(project) =>
+              updateProjects(async () => {
+                await deleteProject(project.id);
+                return `Projekt „${project.name}“ gelöscht.`;
+              })
+            }
+            onExportProject={handleExportProject}
+            onImportProject={(file) =>
+              updateProjects(async () => {
+                const project = await importProject(file);
+                await saveProject(project);
+                return `Projekt „${project.name}“ mit ${project.variants.length} Varianten importiert.`;
+              })
+            }
+            onSaveVariant={handleSaveVariant}
+            onLoadVariant={handleLoadVariant}
+            onDeleteVariant={(project, variant) =>
+              updateProjects(async () => {
+                await saveProject({
+                  ...project,
+                  updatedAt: new Date().toISOString(),
+                  variants: project.variants.filter((v) => v.id !== variant.id),
+                });
+                return undefined;
+              })
+            }
+            onClose={() => setProjectsOpen(false)}
+          />
+        )}
+        {takeoffOpen && (
+          <TakeoffPanel takeoff={takeoff} onClose={() => setTakeoffOpen(false)} />
+        )}
+        {timelineOpen && (
+          <AgingTimeline
+            age={age}
+            playing={timelinePlaying}
+            speed={timelineSpeed}
+            renovation={renovation}
+            zones={zoneConfigs}
+            zoneIds={modelZones}
+            catalog={catalog}
+            onAgeChange={(next) => setAgeControls({ "Alter (Jahre)": next })}
+            onTogglePlay={handleTimelinePlay}
+            onSpeedChange={setTimelineSpeed}
+            onRenovationChange={setRenovation}
+            onClose={() => {
+              setTimelineOpen(false);
+              setTimelinePlaying(false);
+            }}
+          />
+        )}
+        {notice && (
+          <Notice
+            message={notice.message}
+            tone={notice.tone}
+            onClose={() => setNotice(undefined)}
+          />
+        )}
+        {dragActive && (
+          <div
+            style={{
+              position: "fixed",
+              inset: "80px 0 0 0",
+              zIndex: 1003,
+              pointerEvents: "none",
+              border: "3px dashed #2563eb",
+              background: "rgba(37, 99, 235, 0.08)",
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              fontFamily: "system-ui, -apple-system, sans-serif",
+              fontSize: "18px",
+              color: "#2563eb",
+            }}
+          >
+            Modell hier ablegen (.glb, .gltf mit Zusatzdateien, .obj, .ifc)
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,178 @@
+import { useEffect, useRef, useState } from "react";
+import { useThree } from "@react-three/fiber";
+import { Html, Line } from "@react-three/drei";
+import { Intersection, Material, Raycaster, Vector2, Vector3 } from "three";
+import { facadeMeshes } from "../utils/sectionUtils";
+import {
+  formatLength,
+  Measurement,
+  SnapKind,
+  SnapPoint,
+  snapToHit,
+} from "../utils/measureUtils";
+
+interface MeasureToolProps {
+  active: boolean;
+  measurements: Measurement[];
+  onAdd: (start: Vector3, end: Vector3) => void;
+  onDelete: (id: number) => void;
+}
+
+const SNAP_COLORS: Record<SnapKind, string> = {
+  vertex: "#16a34a",
+  edge: "#f59e0b",
+  face: "#2563eb",
+};
+const LINE_COLOR = "#dc2626";
+
+// Hits in the part cut away by the section plane are not visible
+const isVisible = (hit: Intersection) => {
+  const material = (hit.object as { material?: Material | Material[] }).material;
+  const planes = (Array.isArray(material) ? material[0] : material)?.clippingPlanes;
+  return !planes || planes.every((plane) => plane.distanceToPoint(hit.point) >= -1e-6);
+};
+
+/**
+ * Click two points on the facade to measure their distance. Points snap to
+ * vertices and edge midpoints near the pointer. Shift-click ends a
+ * measurement and starts the next one there; Escape drops a started one.
+ */
+export function MeasureTool({ active, measurements, onAdd, onDelete }: MeasureToolProps) {
+  const { gl, camera, scene } = useThree();
+  const [hover, setHover] = useState<SnapPoint | null>(null);
+  const [start, setStart] = useState<Vector3 | null>(null);
+  // Read by the DOM listeners, which are only attached once per activation
+  const startRef = useRef<Vector3 | null>(null);
+
+  useEffect(() => {
+    const placeStart = (point: Vector3 | null) => {
+      startRef.current = point;
+      setStart(point);
+    };
+    if (!active) {
+      setHover(null);
+      placeStart(null);
+      return;
+    }
+    const element = gl.domElement;
+    const raycaster = new Raycaster();
+    const down = new Vector2();
+
+    const pick = (event: PointerEvent): SnapPoint | null => {
+      const rect = element.getBoundingClientRect();
+      const pointer = new Vector2(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, camera);
+      const hit = raycaster.intersectObjects(facadeMeshes(scene), false).find(isVisible);
+      return hit ? snapToHit(hit, camera, new Vector2(rect.width, rect.height)) : null;
+    };
+
+    const handleMove = (event: PointerEvent) => setHover(pick(event));
+    const handleDown = (event: PointerEvent) => down.set(event.clientX, event.clientY);
+    const handleUp = (event: PointerEvent) => {
+      // Dragging orbits the camera and doesn't place a point
+      if (event.button !== 0 || down.distanceTo(new Vector2(event.clientX, event.clientY)) > 2) {
+        return;
+      }
+      const snap = pick(event);
+      if (!snap) return;
+      if (startRef.current) {
+        onAdd(startRef.current, snap.point);
+        placeStart(event.shiftKey ? snap.point : null);
+      } else {
+        placeStart(snap.point);
+      }
+    };
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") placeStart(null);
+    };
+
+    element.addEventListener("pointermove", handleMove);
+    element.addEventListener("pointerdown", handleDown);
+    element.addEventListener("pointerup", handleUp);
+    window.addEventListener("keydown", handleKey);
+    return () => {
+      element.removeEventListener("pointermove", handleMove);
+      element.removeEventListener("pointerdown", handleDown);
+      element.removeEventListener("pointerup", handleUp);
+      window.removeEventListener("keydown", handleKey);
+    };
+  }, [active, gl, camera, scene, onAdd]);
+
+  if (!active) return null;
+
+  return (
+    <group>
+      {measurements.map((m) => (
+        <group key={m.id}>
+          <Line
+            points={[m.start, m.end]}
+            color={LINE_COLOR}
+            lineWidth={2}
+            depthTest={false}
+            renderOrder={3}
+          />
+          {[m.start, m.end].map((point, i) => (
+            <mesh key={i} position={point} renderOrder={3}>
+              <sphereGeometry args={[0.006, 12, 8]} />
+              <meshBasicMaterial color={LINE_COLOR} depthTest={false} />
+            </mesh>
+          ))}
+          <Html position={m.start.clone().lerp(m.end, 0.5)} center zIndexRange={[900, 0]}>
+            <div
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "4px",
+                padding: "2px 6px",
+                background: "white",
+                border: `1px solid ${LINE_COLOR}`,
+                borderRadius: "4px",
+                fontFamily: "system-ui, -apple-system, sans-serif",
+                fontSize: "12px",
+                whiteSpace: "nowrap",
+              }}
+            >
+              {formatLength(m.start.distanceTo(m.end))}
+              <button
+                onClick={() => onDelete(m.id)}
+                aria-label="Messung löschen"
+                style={{
+                  background: "none",
+                  border: "none",
+                  cursor: "pointer",
+                  padding: 0,
+                  fontSize: "14px",
+                  lineHeight: 1,
+                  color: "#666",
+                }}
+              >
+                ×
+              </button>
+            </div>
+          </Html>
+        </group>
+      ))}
+      {start && hover && (
+        <Line
+          points={[start, hover.point]}
+          color={LINE_COLOR}
+          lineWidth={1.5}
+          dashed
+          dashSize={0.02}
+          gapSize={0.01}
+          depthTest={false}
+          renderOrder={3}
+        />
+      )}
+      {hover && (
+        <mesh position={hover.point} renderOrder={4}>
+          <sphereGeometry args={[hover.kind === "face" ? 0.005 : 0.009, 12, 8]} />
+          <meshBasicMaterial color={SNAP_COLORS[hover.kind]} depthTest={false} />
+        </mesh>
+      )}
+    </group>
+  );
+}
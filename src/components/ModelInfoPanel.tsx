@@ -0,0 +1,56 @@
+import { ModelEntry, ORIENTATION_LABELS } from "../config/models";
+
+interface ModelInfoPanelProps {
+  model: ModelEntry;
+}
+
+export function ModelInfoPanel({ model }: ModelInfoPanelProps) {
+  const { board } = model;
+  const rows: [string, string][] = [
+    ["Profil", model.profileType],
+    ["Ausrichtung", ORIENTATION_LABELS[model.orientation]],
+    ["Brett", board ? `${board.width} × ${board.thickness} mm` : "–"],
+    ["Deckbreite", board ? `${board.coverWidth} mm` : "–"],
+  ];
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: "96px",
+        left: "16px",
+        zIndex: 1000,
+        background: "white",
+        padding: "16px",
+        borderRadius: "8px",
+        boxShadow: "0 2px 8px rgba(0,0,0,0.1)",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        width: "220px",
+      }}
+    >
+      {model.thumbnail && (
+        <img
+          src={model.thumbnail}
+          alt={model.name}
+          style={{ width: "100%", borderRadius: "4px", marginBottom: "8px" }}
+        />
+      )}
+      <div style={{ fontSize: "14px", fontWeight: 500, color: "#333" }}>
+        {model.name}
+      </div>
+      <div style={{ fontSize: "12px", color: "#999", marginBottom: "8px" }}>
+        {model.id}
+      </div>
+      <table style={{ fontSize: "12px", color: "#666", borderSpacing: 0 }}>
+        <tbody>
+          {rows.map(([label, value]) => (
+            <tr key={label}>
+              <td style={{ paddingRight: "12px" }}>{label}</td>
+              <td style={{ color: "#333" }}>{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+interface NoticeProps {
+  message: string;
+  tone?: "error" | "info";
+  onClose: () => void;
+}
+
+export function Notice({ message, tone = "info", onClose }: NoticeProps) {
+  const isError = tone === "error";
+  return (
+    <div
+      role={isError ? "alert" : "status"}
+      style={{
+        position: "fixed",
+        top: "96px",
+        left: "50%",
+        transform: "translateX(-50%)",
+        zIndex: 1002,
+        maxWidth: "480px",
+        background: isError ? "#fef2f2" : "white",
+        color: isError ? "#b91c1c" : "#333",
+        border: `1px solid ${isError ? "#fecaca" : "#e5e5e5"}`,
+        padding: "12px 16px",
+        borderRadius: "8px",
+        boxShadow: "0 2px 8px rgba(0,0,0,0.1)",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        fontSize: "14px",
+        display: "flex",
+        alignItems: "flex-start",
+        gap: "12px",
+      }}
+    >
+      <span style={{ flex: 1, whiteSpace: "pre-line", overflowWrap: "anywhere" }}>
+        {message}
+      </span>
+      <button
+        onClick={onClose}
+        aria-label="Schliessen"
+        style={{
+          background: "none",
+          border: "none",
+          padding: 0,
+          color: "inherit",
+          cursor: "pointer",
+          fontSize: "16px",
+          lineHeight: 1,
+        }}
+      >
+        ×
+      </button>
+    </div>
+  );
+}
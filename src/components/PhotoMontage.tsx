@@ -0,0 +1,218 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useThree } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import { Box3, PerspectiveCamera, Texture, Vector2, Vector3 } from "three";
+import { facadeMeshes } from "../utils/sectionUtils";
+import {
+  coverTransform,
+  MONTAGE_CORNERS,
+  MontageSolution,
+  solveMontageCamera,
+} from "../utils/montageUtils";
+
+export interface MontagePhoto {
+  texture: Texture;
+  size: Vector2; // Pixels
+}
+
+interface PhotoMontageProps {
+  photo: MontagePhoto;
+  corners: Vector2[]; // Photo pixels, in MONTAGE_CORNERS order
+  picking: boolean;
+  wallWidth: number;
+  wallHeight: number;
+  onCornersChange: (corners: Vector2[]) => void;
+}
+
+// Pointer distance for grabbing a marked corner
+const GRAB_RADIUS_PX = 12;
+const MARK_COLOR = "#f59e0b";
+
+/**
+ * Shows the photo as a flat backplate behind the facade and matches the
+ * camera to the wall corners marked in it. Corners are placed by clicking and
+ * can be dragged afterwards.
+ */
+export function PhotoMontage({
+  photo,
+  corners,
+  picking,
+  wallWidth,
+  wallHeight,
+  onCornersChange,
+}: PhotoMontageProps) {
+  const { gl, scene, camera, size } = useThree();
+  const [solution, setSolution] = useState<MontageSolution | null>(null);
+  const cornersRef = useRef(corners);
+  cornersRef.current = corners;
+
+  const { repeat, offset } = useMemo(
+    () => coverTransform(size.width / size.height, photo.size.x / photo.size.y),
+    [size, photo.size]
+  );
+
+  // Flat backplate filling the viewport without distortion
+  useEffect(() => {
+    const previous = scene.background;
+    photo.texture.repeat.copy(repeat);
+    photo.texture.offset.copy(offset);
+    scene.background = photo.texture;
+    return () => {
+      scene.background = previous;
+    };
+  }, [scene, photo.texture, repeat, offset]);
+
+  // The initial field of view is restored when the montage ends
+  useEffect(() => {
+    if (!(camera instanceof PerspectiveCamera)) return;
+    const fov = camera.fov;
+    return () => {
+      camera.fov = fov;
+      camera.updateProjectionMatrix();
+    };
+  }, [camera]);
+
+  // Solve once all four corners are marked; the wall starts at the bottom
+  // left front corner of the facade
+  useEffect(() => {
+    if (corners.length < 4 || !(camera instanceof PerspectiveCamera)) {
+      setSolution(null);
+      return;
+    }
+    const box = new Box3();
+    facadeMeshes(scene).forEach((mesh) => box.expandByObject(mesh));
+    const origin = box.isEmpty()
+      ? new Vector3()
+      : new Vector3(box.min.x, box.min.y, box.max.z);
+    const visibleHeight = repeat.y * photo.size.y;
+    const fallbackFocal = visibleHeight / 2 / Math.tan((camera.fov * Math.PI) / 360);
+    const wall = { origin, width: wallWidth, height: wallHeight };
+    setSolution(solveMontageCamera(corners, photo.size, wall, fallbackFocal));
+  }, [corners, photo.size, wallWidth, wallHeight, scene, camera, repeat]);
+
+  useEffect(() => {
+    if (!solution || !(camera instanceof PerspectiveCamera)) return;
+    camera.position.copy(solution.position);
+    camera.quaternion.copy(solution.quaternion);
+    camera.fov = (2 * Math.atan((repeat.y * photo.size.y) / 2 / solution.focal) * 180) / Math.PI;
+    camera.updateProjectionMatrix();
+    camera.updateMatrixWorld();
+  }, [solution, camera, repeat, photo.size]);
+
+  // Screen pixels of the canvas to photo pixels and back
+  const toPhoto = (x: number, y: number) =>
+    new Vector2(
+      (offset.x + (x / size.width) * repeat.x) * photo.size.x,
+      (1 - (offset.y + (1 - y / size.height) * repeat.y)) * photo.size.y
+    );
+  const toScreen = (p: Vector2) =>
+    new Vector2(
+      ((p.x / photo.size.x - offset.x) / repeat.x) * size.width,
+      (1 - (1 - p.y / photo.size.y - offset.y) / repeat.y) * size.height
+    );
+  const toPhotoRef = useRef(toPhoto);
+  toPhotoRef.current = toPhoto;
+  const toScreenRef = useRef(toScreen);
+  toScreenRef.current = toScreen;
+
+  useEffect(() => {
+    const element = gl.domElement;
+    let dragged: number | undefined;
+    const local = (event: PointerEvent) => {
+      const rect = element.getBoundingClientRect();
+      return new Vector2(event.clientX - rect.left, event.clientY - rect.top);
+    };
+
+    const handleDown = (event: PointerEvent) => {
+      if (event.button !== 0) return;
+      const point = local(event);
+      const current = cornersRef.current;
+      const grabbed = current.findIndex(
+        (corner) => toScreenRef.current(corner).distanceTo(point) <= GRAB_RADIUS_PX
+      );
+      if (grabbed >= 0) {
+        dragged = grabbed;
+        element.setPointerCapture(event.pointerId);
+      } else if (picking && current.length < 4) {
+        onCornersChange([...current, toPhotoRef.current(point.x, point.y)]);
+      }
+    };
+    const handleMove = (event: PointerEvent) => {
+      if (dragged === undefined) return;
+      const point = local(event);
+      const next = [...cornersRef.current];
+      next[dragged] = toPhotoRef.current(point.x, point.y);
+      onCornersChange(next);
+    };
+    const handleUp = () => {
+      dragged = undefined;
+    };
+
+    element.addEventListener("pointerdown", handleDown);
+    element.addEventListener("pointermove", handleMove);
+    element.addEventListener("pointerup", handleUp);
+    return () => {
+      element.removeEventListener("pointerdown", handleDown);
+      element.removeEventListener("pointermove", handleMove);
+      element.removeEventListener("pointerup", handleUp);
+    };
+  }, [gl, picking, onCornersChange]);
+
+  const screen = corners.map(toScreen);
+  const hint =
+    picking && corners.length < 4
+      ? `Ecke ${MONTAGE_CORNERS[corners.length]} der Wand anklicken`
+      : corners.length === 4 && !solution
+        ? "Die Ecken ergeben keine gültige Kamera"
+        : undefined;
+
+  return (
+    <Html fullscreen pointerEvents="none" zIndexRange={[10, 0]}>
+      <svg width={size.width} height={size.height} style={{ position: "absolute", inset: 0 }}>
+        {screen.length > 1 && (
+          <polygon
+            points={screen.map((p) => `${p.x},${p.y}`).join(" ")}
+            fill={screen.length === 4 ? "rgba(245, 158, 11, 0.12)" : "none"}
+            stroke={MARK_COLOR}
+            strokeWidth={2}
+            strokeDasharray={screen.length === 4 ? undefined : "6 4"}
+          />
+        )}
+        {screen.map((p, i) => (
+          <g key={i}>
+            <circle cx={p.x} cy={p.y} r={7} fill="white" stroke={MARK_COLOR} strokeWidth={2} />
+            <text
+              x={p.x + 10}
+              y={p.y - 10}
+              fill={MARK_COLOR}
+              fontSize={12}
+              fontFamily="system-ui, -apple-system, sans-serif"
+              fontWeight={600}
+            >
+              {i + 1}
+            </text>
+          </g>
+        ))}
+      </svg>
+      {hint && (
+        <div
+          style={{
+            position: "absolute",
+            top: "16px",
+            left: "50%",
+            transform: "translateX(-50%)",
+            padding: "6px 12px",
+            background: "white",
+            borderRadius: "4px",
+            boxShadow: "0 2px 8px rgba(0,0,0,0.1)",
+            fontFamily: "system-ui, -apple-system, sans-serif",
+            fontSize: "13px",
+            color: "#333",
+          }}
+        >
+          {hint}
+        </div>
+      )}
+    </Html>
+  );
+}
@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from "react";
+import { Project, PROJECT_ACCEPT, ProjectVariant } from "../utils/projectStore";
+
+interface ProjectPanelProps {
+  projects: Project[];
+  onCreateProject: (name: string) => void;
+  onDeleteProject: (project: Project) => void;
+  onExportProject: (project: Project) => void;
+  onImportProject: (file: File) => void;
+  onSaveVariant: (project: Project, name: string) => void;
+  onLoadVariant: (variant: ProjectVariant) => void;
+  onDeleteVariant: (project: Project, variant: ProjectVariant) => void;
+  onClose: () => void;
+}
+
+function Thumbnail({ blob }: { blob: Blob }) {
+  const [url, setUrl] = useState<string>();
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return (
+    <img
+      src={url}
+      alt=""
+      style={{
+        width: "96px",
+        height: "60px",
+        objectFit: "cover",
+        borderRadius: "4px",
+        background: "#f3f3f3",
+        flexShrink: 0,
+      }}
+    />
+  );
+}
+
+/**
+ * Named projects with their saved variants. A variant keeps the
+ * configuration, the model, the background image and the camera.
+ */
+export function ProjectPanel({
+  projects,
+  onCreateProject,
+  onDeleteProject,
+  onExportProject,
+  onImportProject,
+  onSaveVariant,
+  onLoadVariant,
+  onDeleteVariant,
+  onClose,
+}: ProjectPanelProps) {
+  const [projectId, setProjectId] = useState<string>();
+  const [projectName, setProjectName] = useState("");
+  const [variantName, setVariantName] = useState("");
+  const project = projects.find((p) => p.id === projectId) ?? projects[0];
+
+  const buttonStyle: React.CSSProperties = {
+    padding: "6px 12px",
+    background: "#2563eb",
+    color: "white",
+    border: "none",
+    borderRadius: "4px",
+    cursor: "pointer",
+    fontSize: "12px",
+  };
+  const secondaryStyle: React.CSSProperties = {
+    ...buttonStyle,
+    background: "white",
+    color: "#333",
+    border: "1px solid #e5e5e5",
+  };
+  const inputStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    padding: "5px 8px",
+    border: "1px solid #e5e5e5",
+    borderRadius: "4px",
+    fontSize: "12px",
+  };
+  const headingStyle: React.CSSProperties = {
+    fontSize: "12px",
+    fontWeight: 500,
+    color: "#333",
+    margin: "16px 0 8px",
+  };
+
+  const createProject = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = projectName.trim();
+    if (!name) return;
+    onCreateProject(name);
+    setProjectName("");
+    setProjectId(undefined); // The new project is the most recent one
+  };
+
+  const saveVariant = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!project) return;
+    onSaveVariant(project, variantName.trim() || `Variante ${project.variants.length + 1}`);
+    setVariantName("");
+  };
+
+  const chooseImport = () => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = PROJECT_ACCEPT;
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) onImportProject(file);
+    };
+    input.click();
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        left: "16px",
+        top: "96px",
+        zIndex: 1001,
+        width: "340px",
+        maxHeight: "calc(100% - 220px)",
+        overflowY: "auto",
+        boxSizing: "border-box",
+        background: "white",
+        padding: "16px",
+        borderRadius: "8px",
+        boxShadow: "0 2px 8px rgba(0,0,0,0.1)",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        fontSize: "12px",
+        color: "#666",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
+        <span style={{ fontSize: "14px", fontWeight: 500, color: "#333", flex: 1 }}>
+          Projekte
+        </span>
+        <button
+          onClick={onClose}
+          aria-label="Schliessen"
+          style={{
+            background: "none",
+            border: "none",
+            padding: 0,
+            color: "inherit",
+            cursor: "pointer",
+            fontSize: "16px",
+            lineHeight: 1,
+          }}
+        >
+          ×
+        </button>
+      </div>
+
+      <form onSubmit={createProject} style={{ display: "flex", gap: "8px", marginTop: "12px" }}>
+        <input
+          value={projectName}
+          onChange={(e) => setProjectName(e.target.value)}
+          placeholder="Name des Projekts"
+          style={inputStyle}
+        />
+        <button type="submit" style={buttonStyle}>
+          Neues Projekt
+        </button>
+      </form>
+      <button onClick={chooseImport} style={{ ...secondaryStyle, marginTop: "8px" }}>
+        Projekt importieren
+      </button>
+
+      {project ? (
+        <>
+          <div style={{ display: "flex", gap: "8px", marginTop: "16px" }}>
+            <select
+              value={project.id}
+              onChange={(e) => setProjectId(e.target.value)}
+              style={{ ...inputStyle, background: "white" }}
+            >
+              {projects.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+            <button onClick={() => onExportProject(project)} style={secondaryStyle}>
+              Exportieren
+            </button>
+            <button
+              onClick={() => {
+                if (window.confirm(`Projekt „${project.name}“ mit allen Varianten löschen?`)) {
+                  onDeleteProject(project);
+                  setProjectId(undefined);
+                }
+              }}
+              aria-label="Projekt löschen"
+              style={secondaryStyle}
+            >
+              ×
+            </button>
+          </div>
+
+          <form onSubmit={saveVariant} style={{ display: "flex", gap: "8px", marginTop: "8px" }}>
+            <input
+              value={variantName}
+              onChange={(e) => setVariantName(e.target.value)}
+              placeholder={`Variante ${project.variants.length + 1}`}
+              style={inputStyle}
+            />
+            <button type="submit" style={buttonStyle}>
+              Ansicht speichern
+            </button>
+          </form>
+
+          <div style={headingStyle}>Varianten</div>
+          {project.variants.length === 0 && <div>Noch keine Varianten gespeichert.</div>}
+          {project.variants.map((variant) => (
+            <div
+              key={variant.id}
+              style={{ display: "flex", alignItems: "center", gap: "8px", marginBottom: "8px" }}
+            >
+              <Thumbnail blob={variant.thumbnail} />
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div
+                  style={{
+                    color: "#333",
+                    overflow: "hidden",
+                    textOverflow: "ellipsis",
+                    whiteSpace: "nowrap",
+                  }}
+                >
+                  {variant.name}
+                </div>
+                <div>{variant.modelName}</div>
+                <div>{new Date(variant.savedAt).toLocaleString("de-CH")}</div>
+              </div>
+              <button onClick={() => onLoadVariant(variant)} style={buttonStyle}>
+                Laden
+              </button>
+              <button
+                onClick={() => onDeleteVariant(project, variant)}
+                aria-label={`Variante ${variant.name} löschen`}
+                style={secondaryStyle}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </>
+      ) : (
+        <div style={{ marginTop: "16px" }}>
+          Noch keine Projekte. Legen Sie ein Projekt an, um Varianten zu speichern.
+        </div>
+      )}
+    </div>
+  );
+}
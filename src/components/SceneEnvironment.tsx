@@ -0,0 +1,69 @@
+import { useEffect, useMemo } from "react";
+import { useLoader, useThree } from "@react-three/fiber";
+import { Environment } from "@react-three/drei";
+import { BackSide, Texture } from "three";
+import { RGBELoader } from "three/examples/jsm/loaders/RGBELoader.js";
+
+interface EnvironmentSettings {
+  exposure: number;
+  rotation: number; // Radians about the vertical axis
+  background: boolean; // Show the panorama behind the facade
+}
+
+interface SceneEnvironmentProps extends EnvironmentSettings {
+  file?: string; // Bundled .hdr panorama
+  texture?: Texture; // Uploaded panorama, takes precedence over file
+}
+
+// The panorama is drawn on a sphere inside drei's cube camera, so it can be
+// rotated; three r161 has no rotation for scene.environment
+function PanoramaEnvironment({
+  texture,
+  exposure,
+  rotation,
+  background,
+}: EnvironmentSettings & { texture: Texture }) {
+  const gl = useThree((state) => state.gl);
+
+  useEffect(() => {
+    const previous = gl.toneMappingExposure;
+    gl.toneMappingExposure = exposure;
+    return () => {
+      gl.toneMappingExposure = previous;
+    };
+  }, [gl, exposure]);
+
+  // The cube camera renders again whenever the children change, so the
+  // sphere keeps its identity until the panorama or its rotation changes
+  const sphere = useMemo(
+    () => (
+      // Mirrored in x, as the sphere is seen from inside
+      <mesh rotation-y={rotation} scale={[-100, 100, 100]}>
+        <sphereGeometry args={[1, 64, 32]} />
+        <meshBasicMaterial map={texture} side={BackSide} toneMapped={false} />
+      </mesh>
+    ),
+    [texture, rotation]
+  );
+
+  return (
+    <Environment background={background} resolution={1024}>
+      {sphere}
+    </Environment>
+  );
+}
+
+function BundledEnvironment({ file, ...settings }: EnvironmentSettings & { file: string }) {
+  const texture = useLoader(RGBELoader, file);
+  return <PanoramaEnvironment texture={texture} {...settings} />;
+}
+
+/**
+ * Image-based lighting from a bundled or uploaded HDR panorama, optionally
+ * shown as the background.
+ */
+export function SceneEnvironment({ file, texture, ...settings }: SceneEnvironmentProps) {
+  if (texture) return <PanoramaEnvironment texture={texture} {...settings} />;
+  if (file) return <BundledEnvironment file={file} {...settings} />;
+  return null;
+}
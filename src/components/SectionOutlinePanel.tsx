@@ -1,34 +1,53 @@
-import { Vector2 } from "three";
+import React from "react";
+import { SectionContour } from "../utils/sectionUtils";
+import {
+  SectionDrawingInfo,
+  sectionToDxf,
+  sectionToSvg,
+} from "../utils/sectionExport";
+import { downloadFile } from "../utils/downloadUtils";
 
 interface SectionOutlinePanelProps {
   visible: boolean;
-  points: Vector2[];
+  contours: SectionContour[];
+  modelId: string;
+  drawingInfo: SectionDrawingInfo;
 }
 
+// Battens are drawn grey so the boards stand out
+const ZONE_STYLES: { [zone: string]: { fill: string; stroke: string } } = {
+  battens: { fill: "#e5e5e5", stroke: "#666" },
+};
+const DEFAULT_STYLE = { fill: "rgba(37, 99, 235, 0.15)", stroke: "#2563eb" };
+
 export function SectionOutlinePanel({
   visible,
-  points,
+  contours,
+  modelId,
+  drawingInfo,
 }: SectionOutlinePanelProps) {
-  if (!visible || points.length === 0) return null;
+  if (!visible || contours.length === 0) return null;
 
-  // Calculate bounding box of points
+  // Calculate bounding box of all contours
   let minX = Infinity,
     maxX = -Infinity;
   let minY = Infinity,
     maxY = -Infinity;
-  points.forEach((p) => {
-    minX = Math.min(minX, p.x);
-    maxX = Math.max(maxX, p.x);
-    minY = Math.min(minY, p.y);
-    maxY = Math.max(maxY, p.y);
-  });
+  contours.forEach((contour) =>
+    contour.points.forEach((p) => {
+      minX = Math.min(minX, p.x);
+      maxX = Math.max(maxX, p.x);
+      minY = Math.min(minY, p.y);
+      maxY = Math.max(maxY, p.y);
+    })
+  );
 
   // Calculate scale to fit in panel
   const width = 200;
-  const height = 300;
+  const height = 336;
   const padding = 20;
   const panelWidth = width - padding * 2;
-  const panelHeight = height - padding * 2 - 24; // Adjust for title height
+  const panelHeight = height - padding * 2 - 24 - 36; // Title and buttons
 
   // Handle potential division by zero or infinite scale
   const rangeX = maxX - minX;
@@ -37,17 +56,30 @@ export function SectionOutlinePanel({
   const scaleY = rangeY > 1e-6 ? panelHeight / rangeY : 1;
   const scale = Math.min(scaleX, scaleY);
 
-  // Center the drawing within the panel
-  const drawingWidth = rangeX * scale;
-  const drawingHeight = rangeY * scale;
-  const offsetX = (panelWidth - drawingWidth) / 2 + padding;
-  const offsetY = (panelHeight - drawingHeight) / 2 + padding + 24; // Add title padding
+  // Center the drawing within the panel; SVG y points down
+  const offsetX = (panelWidth - rangeX * scale) / 2;
+  const offsetY = (panelHeight - rangeY * scale) / 2;
+  const toPath = (contour: SectionContour) =>
+    contour.points
+      .map(
+        (p, i) =>
+          `${i === 0 ? "M" : "L"} ${(p.x - minX) * scale + offsetX} ${
+            panelHeight - ((p.y - minY) * scale + offsetY)
+          }`
+      )
+      .join(" ") + (contour.closed ? " Z" : "");
 
-  // Transform points to panel coordinates
-  const transformedPoints = points.map((p) => ({
-    x: (p.x - minX) * scale + offsetX,
-    y: height - ((p.y - minY) * scale + offsetY),
-  }));
+  const filename = `Schnitt_${modelId}`;
+  const buttonStyle: React.CSSProperties = {
+    flex: 1,
+    padding: "6px 12px",
+    background: "#2563eb",
+    color: "white",
+    border: "none",
+    borderRadius: "4px",
+    cursor: "pointer",
+    fontSize: "12px",
+  };
 
   return (
     <div
@@ -68,20 +100,54 @@ export function SectionOutlinePanel({
         Schnittansicht
       </div>
       <svg
-        width={width - padding * 2}
-        height={height - padding * 2 - 24} // Adjust height for title
-        viewBox={`0 0 ${width - padding * 2} ${height - padding * 2 - 24}`}
+        width={panelWidth}
+        height={panelHeight}
+        viewBox={`0 0 ${panelWidth} ${panelHeight}`}
         style={{ display: "block" }}
       >
-        <path
-          d={`M ${transformedPoints
-            .map((p, i) => `${i === 0 ? "M" : "L"} ${p.x - padding} ${p.y - padding - 24}`)
-            .join(" ")} Z`}
-          fill="none"
-          stroke="#2563eb"
-          strokeWidth="2"
-        />
+        {contours.map((contour, i) => {
+          const style = ZONE_STYLES[contour.zone] ?? DEFAULT_STYLE;
+          return (
+            <path
+              key={i}
+              d={toPath(contour)}
+              fill={contour.closed ? style.fill : "none"}
+              fillRule="evenodd"
+              stroke={style.stroke}
+              strokeWidth="1"
+              strokeLinejoin="round"
+            />
+          );
+        })}
       </svg>
+      <div style={{ display: "flex", gap: "8px", marginTop: "12px" }}>
+        <button
+          style={buttonStyle}
+          title="Schnitt als CAD-Zeichnung (DXF R12, mm)"
+          onClick={() =>
+            downloadFile(
+              sectionToDxf(contours, drawingInfo),
+              `${filename}.dxf`,
+              "application/dxf"
+            )
+          }
+        >
+          DXF
+        </button>
+        <button
+          style={buttonStyle}
+          title="Schnitt massstäblich als SVG (1:1, mm)"
+          onClick={() =>
+            downloadFile(
+              sectionToSvg(contours, drawingInfo),
+              `${filename}.svg`,
+              "image/svg+xml"
+            )
+          }
+        >
+          SVG
+        </button>
+      </div>
     </div>
   );
-} 
\ No newline at end of file
+}
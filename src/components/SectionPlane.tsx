@@ -0,0 +1,222 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import { TransformControls } from "@react-three/drei";
+import {
+  AlwaysStencilFunc,
+  BackSide,
+  Box3,
+  DecrementWrapStencilOp,
+  FrontSide,
+  Group,
+  IncrementWrapStencilOp,
+  Material,
+  Mesh,
+  MeshBasicMaterial,
+  NotEqualStencilFunc,
+  Object3D,
+  Plane,
+  Quaternion,
+  ReplaceStencilOp,
+  Vector3,
+} from "three";
+import {
+  facadeMeshes,
+  SectionContour,
+  sliceMeshes,
+} from "../utils/sectionUtils";
+
+interface SectionPlaneProps {
+  enabled: boolean;
+  axis: Vector3; // Unit vector; the part beyond the plane along it is cut away
+  position: number; // 0–1 across the facade along the axis
+  showGizmo: boolean;
+  material: Material; // Fill of the cut faces
+  onMove: (position: number) => void;
+  onSectionUpdate: (contours: SectionContour[], enabled: boolean, distance: number) => void;
+}
+
+// Cap and stencil copies are only drawn by the main camera, not by the
+// contact shadow pass or raycasts
+const SECTION_LAYER = 1;
+
+const materialsOf = (mesh: Mesh): Material[] =>
+  Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+
+// Stencil passes of the capping technique: back faces behind the plane count
+// up, front faces count down, so the stencil stays set where the plane cuts
+// through a solid
+const stencilMaterial = (side: typeof FrontSide | typeof BackSide, plane: Plane) =>
+  new MeshBasicMaterial({
+    side,
+    depthWrite: false,
+    depthTest: false,
+    colorWrite: false,
+    stencilWrite: true,
+    stencilFunc: AlwaysStencilFunc,
+    stencilFail: side === BackSide ? IncrementWrapStencilOp : DecrementWrapStencilOp,
+    stencilZFail: side === BackSide ? IncrementWrapStencilOp : DecrementWrapStencilOp,
+    stencilZPass: side === BackSide ? IncrementWrapStencilOp : DecrementWrapStencilOp,
+    clippingPlanes: [plane],
+  });
+
+/**
+ * Clips the facade with a movable plane, fills the cut faces with the section
+ * material and reports the outline for the section panel.
+ */
+export function SectionPlane({
+  enabled,
+  axis,
+  position,
+  showGizmo,
+  material,
+  onMove,
+  onSectionUpdate,
+}: SectionPlaneProps) {
+  const { scene, camera } = useThree();
+  const [plane] = useState(() => new Plane());
+  const planes = useMemo(() => [plane], [plane]);
+  const [meshes, setMeshes] = useState<Mesh[]>([]);
+  const meshesRef = useRef<Mesh[]>([]);
+  const [anchor] = useState(() => new Object3D());
+  const [stencilGroup] = useState(() => new Group());
+  const [stencilMaterials] = useState(() => [
+    stencilMaterial(BackSide, plane),
+    stencilMaterial(FrontSide, plane),
+  ]);
+
+  // Extent of the facade along the axis, for the relative position
+  const { box, min, max } = useMemo(() => {
+    const box = new Box3();
+    meshes.forEach((mesh) => box.expandByObject(mesh));
+    if (box.isEmpty()) return { box, min: 0, max: 0 };
+    const corners = [box.min, box.max].flatMap((a) =>
+      [box.min, box.max].flatMap((b) =>
+        [box.min, box.max].map((c) => new Vector3(a.x, b.y, c.z))
+      )
+    );
+    const projections = corners.map((corner) => corner.dot(axis));
+    return {
+      box,
+      min: Math.min(...projections),
+      max: Math.max(...projections),
+    };
+  }, [meshes, axis]);
+
+  // Keeps points p with axis · p <= distance
+  const distance = min + position * (max - min);
+  plane.normal.copy(axis).negate();
+  plane.constant = distance;
+
+  const center = box.isEmpty() ? new Vector3() : box.getCenter(new Vector3());
+  const planePoint = center.clone().addScaledVector(axis, distance - center.dot(axis));
+  anchor.position.copy(planePoint);
+  anchor.quaternion.setFromUnitVectors(new Vector3(0, 1, 0), axis);
+  const capQuaternion = new Quaternion().setFromUnitVectors(new Vector3(0, 0, 1), axis);
+  const capSize = box.isEmpty() ? 1 : box.getSize(new Vector3()).length() * 2;
+
+  useEffect(() => {
+    camera.layers.enable(SECTION_LAYER);
+  }, [camera]);
+
+  // Cap material only draws where the stencil marks a cut solid
+  useEffect(() => {
+    material.stencilWrite = true;
+    material.stencilRef = 0;
+    material.stencilFunc = NotEqualStencilFunc;
+    material.stencilFail = ReplaceStencilOp;
+    material.stencilZFail = ReplaceStencilOp;
+    material.stencilZPass = ReplaceStencilOp;
+    material.needsUpdate = true;
+  }, [material]);
+
+  // Stencil copies of the facade meshes
+  useEffect(() => {
+    stencilGroup.clear();
+    if (!enabled) return;
+    meshes.forEach((mesh) => {
+      stencilMaterials.forEach((stencil) => {
+        const copy = new Mesh(mesh.geometry, stencil);
+        copy.matrixAutoUpdate = false;
+        copy.renderOrder = 1;
+        copy.layers.set(SECTION_LAYER);
+        copy.userData.source = mesh;
+        stencilGroup.add(copy);
+      });
+    });
+  }, [enabled, meshes, stencilGroup, stencilMaterials]);
+
+  useEffect(
+    () => () => stencilMaterials.forEach((stencil) => stencil.dispose()),
+    [stencilMaterials]
+  );
+
+  useFrame(() => {
+    // The facade changes with the selected model and regenerated panels
+    const current = facadeMeshes(scene);
+    if (
+      current.length !== meshesRef.current.length ||
+      current.some((mesh, i) => mesh !== meshesRef.current[i])
+    ) {
+      meshesRef.current = current;
+      setMeshes(current);
+    }
+
+    // Zone materials are replaced on every change, so clipping is checked
+    // each frame. The plane is shared and moves without recompiling.
+    current.forEach((mesh) =>
+      materialsOf(mesh).forEach((mat) => {
+        const clipped = mat.clippingPlanes === planes;
+        if (clipped === enabled) return;
+        mat.clippingPlanes = enabled ? planes : null;
+        mat.clipShadows = enabled;
+        mat.needsUpdate = true;
+      })
+    );
+
+    stencilGroup.children.forEach((copy) => {
+      copy.matrix.copy((copy.userData.source as Mesh).matrixWorld);
+      copy.matrixWorldNeedsUpdate = true;
+    });
+  });
+
+  // Live outline for the section panel
+  useEffect(() => {
+    onSectionUpdate(enabled ? sliceMeshes(meshes, plane) : [], enabled, distance);
+  }, [enabled, meshes, plane, distance, axis, onSectionUpdate]);
+
+  const handleDrag = () => {
+    if (max - min < 1e-6) return;
+    const t = (anchor.position.dot(axis) - min) / (max - min);
+    onMove(Math.min(1, Math.max(0, t)));
+  };
+
+  return (
+    <>
+      <primitive object={stencilGroup} />
+      <primitive object={anchor} />
+      {enabled && (
+        <mesh
+          position={planePoint}
+          quaternion={capQuaternion}
+          layers-mask={1 << SECTION_LAYER}
+          material={material}
+          renderOrder={2}
+          onAfterRender={(renderer) => renderer.clearStencil()}
+        >
+          <planeGeometry args={[capSize, capSize]} />
+        </mesh>
+      )}
+      {enabled && showGizmo && (
+        <TransformControls
+          object={anchor}
+          mode="translate"
+          space="local"
+          showX={false}
+          showZ={false}
+          size={0.6}
+          onObjectChange={handleDrag}
+        />
+      )}
+    </>
+  );
+}
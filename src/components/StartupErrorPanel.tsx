@@ -0,0 +1,40 @@
+interface StartupErrorPanelProps {
+  title: string;
+  errors: string[];
+}
+
+export function StartupErrorPanel({ title, errors }: StartupErrorPanelProps) {
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: "50%",
+        left: "50%",
+        transform: "translate(-50%, -50%)",
+        maxWidth: "640px",
+        background: "white",
+        padding: "24px",
+        borderRadius: "8px",
+        boxShadow: "0 2px 8px rgba(0,0,0,0.1)",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        color: "#333",
+      }}
+    >
+      <h3 style={{ margin: "0 0 16px 0", color: "#b91c1c", fontSize: "18px" }}>
+        {title}
+      </h3>
+      <ul
+        style={{
+          margin: 0,
+          paddingLeft: "20px",
+          fontSize: "14px",
+          fontFamily: "monospace",
+        }}
+      >
+        {errors.map((error) => (
+          <li key={error}>{error}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
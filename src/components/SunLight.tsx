@@ -0,0 +1,94 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import { Box3, Color, DirectionalLight, Mesh, Object3D, Sphere, Vector3 } from "three";
+import { facadeMeshes } from "../utils/sectionUtils";
+
+interface SunLightProps {
+  enabled: boolean;
+  direction: Vector3; // Unit vector towards the sun
+  intensity: number;
+}
+
+// Low sun is warmer; full daylight colour from about 30° elevation
+const HORIZON_COLOR = new Color("#ffb46b");
+const DAYLIGHT_COLOR = new Color("#fff6e8");
+
+/**
+ * Shadow-casting directional light for the sun study. The shadow camera is
+ * fitted to the facade, and the facade meshes cast and receive shadows while
+ * the light is on.
+ */
+export function SunLight({ enabled, direction, intensity }: SunLightProps) {
+  const { scene } = useThree();
+  const lightRef = useRef<DirectionalLight>(null);
+  const [target] = useState(() => new Object3D());
+  const [meshes, setMeshes] = useState<Mesh[]>([]);
+  const meshesRef = useRef<Mesh[]>([]);
+
+  useFrame(() => {
+    const current = facadeMeshes(scene);
+    if (
+      current.length !== meshesRef.current.length ||
+      current.some((mesh, i) => mesh !== meshesRef.current[i])
+    ) {
+      meshesRef.current = current;
+      setMeshes(current);
+    }
+  });
+
+  useEffect(() => {
+    meshes.forEach((mesh) => {
+      mesh.castShadow = enabled;
+      mesh.receiveShadow = enabled;
+    });
+  }, [enabled, meshes]);
+
+  const bounds = useMemo(() => {
+    const box = new Box3();
+    meshes.forEach((mesh) => box.expandByObject(mesh));
+    return box.isEmpty()
+      ? new Sphere(new Vector3(), 1)
+      : box.getBoundingSphere(new Sphere());
+  }, [meshes]);
+
+  // The light is unmounted while the sun is below the horizon
+  const visible = enabled && direction.y > 0;
+
+  // Keep the whole facade inside the orthographic shadow frustum
+  useEffect(() => {
+    const light = lightRef.current;
+    if (!light) return;
+    const r = bounds.radius * 1.2;
+    const camera = light.shadow.camera;
+    camera.left = -r;
+    camera.right = r;
+    camera.top = r;
+    camera.bottom = -r;
+    camera.near = 0.01;
+    camera.far = bounds.radius * 4;
+    camera.updateProjectionMatrix();
+  }, [bounds, visible]);
+
+  const elevation = Math.max(0, direction.y);
+  const color = HORIZON_COLOR.clone().lerp(DAYLIGHT_COLOR, Math.min(1, elevation / 0.5));
+  target.position.copy(bounds.center);
+
+  if (!visible) return null;
+
+  return (
+    <>
+      <primitive object={target} />
+      <directionalLight
+        ref={lightRef}
+        target={target}
+        position={bounds.center.clone().addScaledVector(direction, bounds.radius * 2)}
+        color={color}
+        intensity={intensity * Math.min(1, elevation * 4)}
+        castShadow
+        shadow-mapSize={[2048, 2048]}
+        shadow-bias={-0.0002}
+        shadow-normalBias={0.01}
+      />
+    </>
+  );
+}
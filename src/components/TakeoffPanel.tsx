@@ -0,0 +1,165 @@
+import React from "react";
+import { QuantityTakeoff, takeoffToCsv } from "../utils/takeoffUtils";
+import { downloadFile } from "../utils/downloadUtils";
+
+interface TakeoffPanelProps {
+  takeoff: QuantityTakeoff | null;
+  onClose: () => void;
+}
+
+const format = (value: number, digits = 2) =>
+  value.toLocaleString("de-CH", {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  });
+
+export function TakeoffPanel({ takeoff, onClose }: TakeoffPanelProps) {
+  const buttonStyle: React.CSSProperties = {
+    padding: "6px 12px",
+    background: "#2563eb",
+    color: "white",
+    border: "none",
+    borderRadius: "4px",
+    cursor: "pointer",
+    fontSize: "12px",
+  };
+  const cellStyle: React.CSSProperties = { padding: "2px 0" };
+  const numberStyle: React.CSSProperties = {
+    ...cellStyle,
+    textAlign: "right",
+    paddingLeft: "12px",
+    color: "#333",
+    whiteSpace: "nowrap",
+  };
+
+  const filename = takeoff ? `Ausmass_${takeoff.model.id}` : "Ausmass";
+  const summary: [string, string][] = takeoff
+    ? [
+        ["Fassadenfläche", `${format(takeoff.area)} m²`],
+        ["Anzahl Bretter", String(takeoff.boardCount)],
+        [`Laufmeter ${takeoff.model.profileType}`, `${format(takeoff.boardMeters)} m`],
+        ["Lattung", `${format(takeoff.battenMeters)} m`],
+        ["Eckprofile und Rahmen", `${format(takeoff.trimMeters)} m`],
+        ["Beschichtung", `${format(takeoff.coatingLitres)} l`],
+      ]
+    : [];
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        left: "16px",
+        bottom: "32px",
+        zIndex: 1000,
+        width: "340px",
+        maxHeight: "calc(100% - 420px)",
+        overflowY: "auto",
+        background: "white",
+        padding: "16px",
+        borderRadius: "8px",
+        boxShadow: "0 2px 8px rgba(0,0,0,0.1)",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        fontSize: "12px",
+        color: "#666",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: "8px",
+        }}
+      >
+        <span style={{ fontSize: "14px", fontWeight: 500, color: "#333" }}>
+          Ausmass und Kostenschätzung
+        </span>
+        <button
+          onClick={onClose}
+          aria-label="Schliessen"
+          style={{
+            background: "none",
+            border: "none",
+            padding: 0,
+            color: "inherit",
+            cursor: "pointer",
+            fontSize: "16px",
+            lineHeight: 1,
+          }}
+        >
+          ×
+        </button>
+      </div>
+
+      {!takeoff ? (
+        <div>Modell wird geladen …</div>
+      ) : (
+        <>
+          <table style={{ width: "100%", borderSpacing: 0, marginBottom: "12px" }}>
+            <tbody>
+              {summary.map(([label, value]) => (
+                <tr key={label}>
+                  <td style={cellStyle}>{label}</td>
+                  <td style={numberStyle}>{value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <table style={{ width: "100%", borderSpacing: 0, marginBottom: "12px" }}>
+            <thead>
+              <tr style={{ color: "#999" }}>
+                <td style={cellStyle}>Position</td>
+                <td style={numberStyle}>Menge</td>
+                <td style={numberStyle}>{takeoff.currency}</td>
+              </tr>
+            </thead>
+            <tbody>
+              {takeoff.lines.map((line) => (
+                <tr key={line.position}>
+                  <td style={cellStyle}>{line.position}</td>
+                  <td style={numberStyle}>
+                    {format(line.quantity)} {line.unit}
+                  </td>
+                  <td style={numberStyle}>{format(line.total)}</td>
+                </tr>
+              ))}
+              <tr style={{ fontWeight: 500 }}>
+                <td style={{ ...cellStyle, color: "#333", borderTop: "1px solid #e5e5e5" }}>
+                  Total (Richtpreis)
+                </td>
+                <td style={{ ...numberStyle, borderTop: "1px solid #e5e5e5" }} />
+                <td style={{ ...numberStyle, borderTop: "1px solid #e5e5e5" }}>
+                  {format(takeoff.total)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+
+          <div style={{ display: "flex", gap: "8px" }}>
+            <button
+              style={buttonStyle}
+              onClick={() =>
+                downloadFile(takeoffToCsv(takeoff), `${filename}.csv`, "text/csv;charset=utf-8")
+              }
+            >
+              CSV exportieren
+            </button>
+            <button
+              style={buttonStyle}
+              onClick={() =>
+                downloadFile(
+                  JSON.stringify(takeoff, null, 2),
+                  `${filename}.json`,
+                  "application/json"
+                )
+              }
+            >
+              JSON exportieren
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,39 @@
-import React from "react";
+import React, { useState } from "react";
+
+// Camera and section actions the scene attaches to the orbit controls
+export interface ToolbarControls {
+  reset: () => void;
+  zoomToFit: () => void;
+  toggleClipping: () => void;
+}
 
 interface ToolbarProps {
-  controls: React.RefObject<{
-    reset: () => void;
-    zoomToFit: () => void;
-    toggleClipping: () => void;
-  } | null>;
+  controls: React.RefObject<ToolbarControls | null>;
+  views?: { id: string; name: string; saved: boolean }[]; // Saved views can be deleted
+  onShowView?: (id: string) => void;
+  onSaveView?: () => void;
+  onDeleteView?: (id: string) => void;
+  onToggleTakeoff?: () => void;
+  onToggleTimeline?: () => void;
+  onToggleMeasure?: () => void;
+  measureActive?: boolean;
+  onToggleProjects?: () => void;
+  onCopyLink?: () => void;
 }
 
-export function Toolbar({ controls }: ToolbarProps) {
+export function Toolbar({
+  controls,
+  views,
+  onShowView,
+  onSaveView,
+  onDeleteView,
+  onToggleTakeoff,
+  onToggleTimeline,
+  onToggleMeasure,
+  measureActive = false,
+  onToggleProjects,
+  onCopyLink,
+}: ToolbarProps) {
   const buttonStyle: React.CSSProperties = {
     padding: "8px 16px",
     background: "#2563eb",
@@ -23,12 +48,29 @@ export function Toolbar({ controls }: ToolbarProps) {
     transition: "background-color 0.2s",
   };
 
+  const [viewsOpen, setViewsOpen] = useState(false);
+  const menuItemStyle: React.CSSProperties = {
+    flex: 1,
+    display: "flex",
+    gap: "8px",
+    padding: "6px 8px",
+    background: "none",
+    border: "none",
+    borderRadius: "4px",
+    cursor: "pointer",
+    fontSize: "13px",
+    color: "#333",
+    textAlign: "left",
+    whiteSpace: "nowrap",
+  };
+
   const handleMouseOver = (e: React.MouseEvent<HTMLButtonElement>) => {
     e.currentTarget.style.background = "#1d4ed8";
   };
 
   const handleMouseOut = (e: React.MouseEvent<HTMLButtonElement>) => {
-    e.currentTarget.style.background = "#2563eb";
+    e.currentTarget.style.background =
+      e.currentTarget.dataset.active === "true" ? "#1e40af" : "#2563eb";
   };
 
   return (
@@ -92,6 +134,95 @@ export function Toolbar({ controls }: ToolbarProps) {
         </svg>
         Zoom
       </button>
+      {views && onShowView && (
+        <div style={{ position: "relative" }}>
+          <button
+            onClick={() => setViewsOpen((open) => !open)}
+            data-active={viewsOpen}
+            aria-expanded={viewsOpen}
+            style={{ ...buttonStyle, background: viewsOpen ? "#1e40af" : "#2563eb" }}
+            onMouseOver={handleMouseOver}
+            onMouseOut={handleMouseOut}
+          >
+            <svg
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="M14.5 4h-5L7 7H4a2 2 0 0 0-2 2v9a2 2 0 0 0 2 2h16a2 2 0 0 0 2-2V9a2 2 0 0 0-2-2h-3l-2.5-3z" />
+              <circle cx="12" cy="13" r="3" />
+            </svg>
+            Ansichten
+          </button>
+          {viewsOpen && (
+            <div
+              role="menu"
+              style={{
+                position: "absolute",
+                bottom: "calc(100% + 24px)",
+                left: 0,
+                minWidth: "200px",
+                background: "white",
+                padding: "8px",
+                borderRadius: "8px",
+                boxShadow: "0 2px 8px rgba(0,0,0,0.1)",
+              }}
+            >
+              {views.map((view, i) => (
+                <div key={view.id} style={{ display: "flex", alignItems: "center" }}>
+                  <button
+                    role="menuitem"
+                    onClick={() => onShowView(view.id)}
+                    style={menuItemStyle}
+                    onMouseOver={(e) => (e.currentTarget.style.background = "#f0f4ff")}
+                    onMouseOut={(e) => (e.currentTarget.style.background = "none")}
+                  >
+                    <span style={{ color: "#999", width: "12px" }}>{i < 9 ? i + 1 : ""}</span>
+                    {view.name}
+                  </button>
+                  {view.saved && onDeleteView && (
+                    <button
+                      onClick={() => onDeleteView(view.id)}
+                      aria-label={`${view.name} löschen`}
+                      style={{
+                        background: "none",
+                        border: "none",
+                        padding: "0 4px",
+                        color: "#999",
+                        cursor: "pointer",
+                        fontSize: "16px",
+                        lineHeight: 1,
+                      }}
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+              ))}
+              {onSaveView && (
+                <button
+                  onClick={onSaveView}
+                  style={{
+                    ...menuItemStyle,
+                    width: "100%",
+                    marginTop: "4px",
+                    borderTop: "1px solid #eee",
+                    borderRadius: 0,
+                    color: "#2563eb",
+                  }}
+                >
+                  + Aktuelle Ansicht speichern
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
       <button
         onClick={() => controls?.current?.toggleClipping()}
         style={buttonStyle}
@@ -114,6 +245,129 @@ export function Toolbar({ controls }: ToolbarProps) {
         </svg>
         Schnitt
       </button>
+      {onToggleMeasure && (
+        <button
+          onClick={onToggleMeasure}
+          data-active={measureActive}
+          aria-pressed={measureActive}
+          style={{ ...buttonStyle, background: measureActive ? "#1e40af" : "#2563eb" }}
+          onMouseOver={handleMouseOver}
+          onMouseOut={handleMouseOut}
+        >
+          <svg
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M21.3 15.3a2.4 2.4 0 0 1 0 3.4l-2.6 2.6a2.4 2.4 0 0 1-3.4 0L2.7 8.7a2.4 2.4 0 0 1 0-3.4l2.6-2.6a2.4 2.4 0 0 1 3.4 0Z" />
+            <path d="m14.5 12.5 2-2" />
+            <path d="m11.5 9.5 2-2" />
+            <path d="m8.5 6.5 2-2" />
+            <path d="m17.5 15.5 2-2" />
+          </svg>
+          Messen
+        </button>
+      )}
+      {onToggleTakeoff && (
+        <button
+          onClick={onToggleTakeoff}
+          style={buttonStyle}
+          onMouseOver={handleMouseOver}
+          onMouseOut={handleMouseOut}
+        >
+          <svg
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <rect x="4" y="2" width="16" height="20" rx="2" />
+            <path d="M8 6h8" />
+            <path d="M8 12h2" />
+            <path d="M14 12h2" />
+            <path d="M8 17h2" />
+            <path d="M14 17h2" />
+          </svg>
+          Ausmass
+        </button>
+      )}
+      {onToggleTimeline && (
+        <button
+          onClick={onToggleTimeline}
+          style={buttonStyle}
+          onMouseOver={handleMouseOver}
+          onMouseOut={handleMouseOut}
+        >
+          <svg
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <circle cx="12" cy="12" r="9" />
+            <path d="M12 7v5l3 3" />
+          </svg>
+          Zeitachse
+        </button>
+      )}
+      {onToggleProjects && (
+        <button
+          onClick={onToggleProjects}
+          style={buttonStyle}
+          onMouseOver={handleMouseOver}
+          onMouseOut={handleMouseOut}
+        >
+          <svg
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M3 7a2 2 0 0 1 2-2h4l2 2h8a2 2 0 0 1 2 2v8a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2z" />
+          </svg>
+          Projekte
+        </button>
+      )}
+      {onCopyLink && (
+        <button
+          onClick={onCopyLink}
+          style={buttonStyle}
+          onMouseOver={handleMouseOver}
+          onMouseOut={handleMouseOut}
+        >
+          <svg
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M10 13a5 5 0 0 0 7.5.5l3-3a5 5 0 0 0-7-7l-1.7 1.7" />
+            <path d="M14 11a5 5 0 0 0-7.5-.5l-3 3a5 5 0 0 0 7 7l1.7-1.7" />
+          </svg>
+          Link kopieren
+        </button>
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { ColorMap, MaintenanceAction } from "./constants";
+
+// The material catalog is loaded from public/ at startup, so woods, surfaces
+// and treatments can be added without a code change.
+export const CATALOG_URL = "/catalog/materials.json";
+export const CATALOG_VERSION = 1;
+
+export type LinearRGB = readonly [number, number, number];
+
+export interface WoodEntry {
+  id: string;
+  name: string;
+  baseColor: LinearRGB;
+  roughness: number;
+  agingResistance: number; // 0 = greys normally, 1 = never greys
+}
+
+export interface SurfaceEntry {
+  id: string;
+  name: string;
+  roughnessOffset: number; // Added to the wood roughness
+  metalness: number;
+  envMapIntensity: number;
+  normalScale: number; // Strength of the normal map relief
+  grooveSpacing?: number; // Metres between milled grooves of the generated relief
+}
+
+// Planned renovation of a coating; the interval can be changed in the timeline
+export interface TreatmentMaintenance {
+  action: MaintenanceAction;
+  intervalYears: number;
+}
+
+export interface TreatmentEntry {
+  id: string;
+  name: string;
+  tintColor?: LinearRGB; // Fixed tint, e.g. for thermo wood
+  tintStrength: number; // How far the color is lerped towards the tint/finish color
+  brightness?: number;
+  roughnessOffset: number;
+  metalnessOffset: number;
+  envMapFactor: number;
+  agingResistance: number; // Negative values age faster (pre-greyed wood)
+  colors?: ColorMap; // Allowed finish colors; the treatment is tinted with the chosen one
+  maintenance?: TreatmentMaintenance; // Coatings that are renewed
+}
+
+// Texture set keyed by `${woodId}_${surfaceId}` (e.g. "spruce_grooved").
+// Combinations without an entry get a generated grain for their surface.
+export interface TextureSet {
+  diffuse: string;
+  normal: string;
+  roughness: string;
+  tileSize: number; // Edge length in metres covered by one texture tile
+}
+
+export interface MaterialCatalog {
+  version: number;
+  defaults: {
+    wood: string;
+    surface: string;
+    treatment: string;
+  };
+  woods: WoodEntry[];
+  surfaces: SurfaceEntry[];
+  treatments: TreatmentEntry[];
+  textureSets: { [key: string]: TextureSet };
+}
+
+// A material selection, referring to catalog entries by id
+export interface MaterialConfig {
+  woodType: string;
+  surface: string;
+  treatment: string;
+  finishColor?: string;
+  age: number;
+}
+
+// Material selection of one facade zone; the age applies to all zones
+export type ZoneMaterialConfig = Omit<MaterialConfig, "age">;
+
+export interface ZoneConfigs {
+  [zoneId: string]: ZoneMaterialConfig;
+}
@@ -1,58 +1,114 @@
 // Types
-export interface WoodColors {
-  [key: string]: readonly [number, number, number];
-}
-
 export interface ColorMap {
   [key: string]: string;
 }
 
-export interface StringMap {
-  [key: string]: string;
-}
+// Woods, surfaces, treatments and colors live in the material catalog,
+// see config/catalog.ts and public/catalog/materials.json.
 
-// Constants
-export const WOOD_TYPES: StringMap = {
-  "Fichte/Tanne": "spruce",
-  Lärche: "larch",
-  Douglasie: "douglas",
+// Facade orientation (compass azimuth of the facade normal in degrees)
+export const FACADE_ORIENTATIONS: { [key: string]: number } = {
+  Nord: 0,
+  Nordost: 45,
+  Ost: 90,
+  Südost: 135,
+  Süd: 180,
+  Südwest: 225,
+  West: 270,
+  Nordwest: 315,
 } as const;
 
-export const SURFACE_TYPES: StringMap = {
-  Geschliffen: "smooth",
-  Sägerau: "rough",
-  Gerillt: "grooved",
-  Gehobelt: "planed",
-} as const;
+// Prevailing driving-rain direction on the Swiss Plateau (from WSW)
+export const PREVAILING_WEATHER_AZIMUTH = 250;
 
-export const WOOD_COLORS: WoodColors = {
-  spruce: [0.8, 0.7, 0.5],
-  larch: [0.75, 0.6, 0.4],
-  douglas: [0.7, 0.5, 0.3],
-} as const;
+// Years covered by the aging timeline
+export const AGING_TIMELINE_YEARS = 30;
 
-export const TREATMENT_TYPES: StringMap = {
-  Unbehandelt: "untreated",
-  Vorvergraut: "pre_aged",
-  "Lasur (UV-Schutz)": "glazed",
-  "Deckend (Pigmentiert)": "opaque",
-  Hydrophobiert: "hydrophobic",
-  "Thermisch behandelt": "thermo",
+// Renovations of coated cladding, set per treatment in the catalog. A
+// recoated glaze starts weathering afresh; opaque paint chalks until it is
+// repainted.
+export const MAINTENANCE_ACTIONS = {
+  recoat: "Nachstreichen",
+  repaint: "Neuanstrich",
 } as const;
+export type MaintenanceAction = keyof typeof MAINTENANCE_ACTIONS;
+
+// Output sizes of the image export in pixels; null keeps the canvas size
+export const IMAGE_EXPORT_SIZES: { [label: string]: [number, number] | null } = {
+  Ansicht: null,
+  "Full HD (1920 × 1080)": [1920, 1080],
+  "4K (3840 × 2160)": [3840, 2160],
+  "A4 quer, 300 dpi (3508 × 2480)": [3508, 2480],
+  "A3 quer, 300 dpi (4961 × 3508)": [4961, 3508],
+};
+
+export const BRAND_LOGO_URL = "/Sagerei.png";
 
-export const LASUR_COLORS: ColorMap = {
-  Natur: "#c4a484",
-  Honig: "#e3a857",
-  Nussbaum: "#654321",
-  Eiche: "#8b7355",
-  Palisander: "#4a2932",
+// Default site of the sun study (Bern)
+export const DEFAULT_SUN_LOCATION = { latitude: 46.95, longitude: 7.45 };
+
+// Axes of the section plane; "custom" takes a normal
+export const SECTION_AXES = {
+  "Horizontal (Y)": "y",
+  "Vertikal (X)": "x",
+  "Parallel zur Fassade (Z)": "z",
+  Benutzerdefiniert: "custom",
 } as const;
 
-export const PIGMENT_COLORS: ColorMap = {
-  Weiß: "#f5f5f5",
-  Hellgrau: "#d3d3d3",
-  Anthrazit: "#383838",
-  Schwarz: "#1a1a1a",
-  Braun: "#654321",
-  Terracotta: "#c66b3d",
-} as const; 
\ No newline at end of file
+// Facade zones are derived from GLB node and material names. The first
+// matching pattern wins; meshes matching none belong to the cladding.
+export interface FacadeZone {
+  id: string;
+  name: string;
+  pattern: RegExp;
+}
+
+export const FACADE_ZONES: FacadeZone[] = [
+  {
+    id: "battens",
+    name: "Lattung",
+    pattern: /latte|lattung|batten|VerticalElementProxy|IfcMember/i,
+  },
+  { id: "corners", name: "Eckprofile", pattern: /eckprofil|ecke|corner/i },
+  {
+    id: "frames",
+    name: "Fensterrahmen",
+    pattern: /fenster|rahmen|window|frame/i,
+  },
+  { id: "cladding", name: "Schalung", pattern: /.*/ },
+];
+
+export const DEFAULT_ZONE = "cladding";
+
+// Unit prices for the cost estimate, keyed by catalog id. Woods and surfaces
+// are priced per m² of board, treatments per litre of coating. Catalog
+// entries without a price count as 0.
+export const CURRENCY = "CHF";
+
+export const UNIT_PRICES = {
+  woods: { spruce: 32, larch: 48, douglas: 42 } as { [woodId: string]: number },
+  surfaces: { smooth: 6, rough: 0, grooved: 9, planed: 4 } as {
+    [surfaceId: string]: number;
+  },
+  treatments: {
+    untreated: 0,
+    pre_aged: 38,
+    glazed: 32,
+    opaque: 36,
+    hydrophobic: 24,
+    thermo: 0,
+  } as { [treatmentId: string]: number },
+  battenPerMeter: 2.9,
+  trimPerMeter: 7.5, // Corner profiles and window frames
+};
+
+// Coating consumption per treatment in litres per m² and coat. Boards are
+// coated on all sides; treatments without an entry need no coating.
+export const COATING_CONSUMPTION: {
+  [treatmentId: string]: { litresPerSquareMetre: number; coats: number };
+} = {
+  pre_aged: { litresPerSquareMetre: 0.12, coats: 1 },
+  glazed: { litresPerSquareMetre: 0.1, coats: 2 },
+  opaque: { litresPerSquareMetre: 0.12, coats: 2 },
+  hydrophobic: { litresPerSquareMetre: 0.08, coats: 1 },
+};
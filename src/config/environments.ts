@@ -0,0 +1,21 @@
+// Image-based lighting shipped with the app, so the viewer works offline.
+// The files are procedural skies from scripts/generate-environments.mjs.
+export interface EnvironmentPreset {
+  id: string;
+  name: string;
+  file: string;
+}
+
+export const ENVIRONMENT_PRESETS: EnvironmentPreset[] = [
+  { id: "overcast", name: "Bedeckt", file: "/environments/overcast.hdr" },
+  { id: "clear_noon", name: "Klarer Mittag", file: "/environments/clear_noon.hdr" },
+  { id: "evening", name: "Abendsonne", file: "/environments/evening.hdr" },
+  { id: "urban", name: "Stadt", file: "/environments/urban.hdr" },
+];
+
+export const DEFAULT_ENVIRONMENT_ID = "evening";
+
+// Select value of an uploaded HDRI
+export const CUSTOM_ENVIRONMENT_ID = "custom";
+
+export const ENVIRONMENT_ACCEPT = ".hdr,.exr";
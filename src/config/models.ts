@@ -0,0 +1,115 @@
+// Facade profiles are listed in a manifest next to the GLB files, so new
+// profiles only need a manifest entry.
+export const MODEL_MANIFEST_URL = "/facades/manifest.json";
+export const MODEL_MANIFEST_VERSION = 1;
+
+export const BOARD_ORIENTATIONS = ["vertical", "horizontal", "diagonal"] as const;
+export type BoardOrientation = (typeof BOARD_ORIENTATIONS)[number];
+
+export const ORIENTATION_LABELS: { [key in BoardOrientation]: string } = {
+  vertical: "Vertikal",
+  horizontal: "Horizontal",
+  diagonal: "Diagonal",
+};
+
+// Board dimensions in millimetres. The cover width is the spacing between
+// neighbouring boards: smaller than the width for overlapping profiles,
+// larger for open joints.
+export interface BoardDimensions {
+  width: number;
+  thickness: number;
+  coverWidth: number;
+}
+
+export interface ModelEntry {
+  id: string;
+  name: string;
+  file: string;
+  orientation: BoardOrientation;
+  profileType: string; // e.g. Stülpschalung, Rhombusleisten
+  board?: BoardDimensions; // Unknown for imported models
+  defaultMaterial: {
+    wood: string;
+    surface: string;
+    treatment: string;
+    finishColor?: string;
+  };
+  thumbnail?: string;
+}
+
+export interface ModelManifest {
+  version: number;
+  models: ModelEntry[];
+}
+
+// Parametric cladding, generated in the browser instead of loaded from a GLB
+export const PARAMETRIC_MODEL_ID = "parametric";
+
+export const PROFILE_TYPES = {
+  "Boden-Deckel": "board_batten",
+  Stülpschalung: "lap",
+  Rhombusleisten: "rhombus",
+  "Nut und Kamm": "tongue_groove",
+} as const;
+export type ProfileType = (typeof PROFILE_TYPES)[keyof typeof PROFILE_TYPES];
+
+// Facade size in metres, board and batten dimensions in millimetres
+export interface CladdingParameters {
+  facadeWidth: number;
+  facadeHeight: number;
+  boardWidth: number;
+  thickness: number;
+  gap: number;
+  orientation: BoardOrientation;
+  profile: ProfileType;
+  battenSpacing: number;
+}
+
+export const DEFAULT_CLADDING: CladdingParameters = {
+  facadeWidth: 2,
+  facadeHeight: 2,
+  boardWidth: 120,
+  thickness: 22,
+  gap: 10,
+  orientation: "vertical",
+  profile: "rhombus",
+  battenSpacing: 600,
+};
+
+// Building massing the selected facade module is tiled across
+export const ROOF_TYPES = {
+  Flachdach: "flat",
+  Satteldach: "gable",
+  Pultdach: "shed",
+} as const;
+export type RoofType = (typeof ROOF_TYPES)[keyof typeof ROOF_TYPES];
+
+// Dimensions in metres, roof pitch in degrees. The gable roof ridge runs
+// along the length, the shed roof rises from the front to the back.
+export interface BuildingParameters {
+  length: number; // Along the front facade
+  depth: number;
+  storeys: number;
+  storeyHeight: number;
+  roof: RoofType;
+  roofPitch: number;
+  overhang: number;
+  windowsPerStorey: number; // On the front and back, the sides in proportion
+  windowWidth: number;
+  windowHeight: number;
+  door: boolean; // Entrance in the middle of the front
+}
+
+export const DEFAULT_BUILDING: BuildingParameters = {
+  length: 10,
+  depth: 8,
+  storeys: 2,
+  storeyHeight: 2.8,
+  roof: "gable",
+  roofPitch: 30,
+  overhang: 0.3,
+  windowsPerStorey: 3,
+  windowWidth: 1.2,
+  windowHeight: 1.4,
+  door: true,
+};
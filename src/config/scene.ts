@@ -0,0 +1,23 @@
+import { ZoneConfigs } from "./catalog";
+import { BoardDimensions, BoardOrientation, CladdingParameters } from "./models";
+
+// The viewer configuration is stored in the glTF extras of exported GLBs
+// under this key, so reopening an export restores it.
+export const SCENE_CONFIG_KEY = "fassadenViewer";
+export const SCENE_CONFIG_VERSION = 1;
+
+export interface SceneConfiguration {
+  version: number;
+  model: {
+    id: string;
+    name: string;
+    profileType: string;
+    orientation: BoardOrientation;
+    board?: BoardDimensions;
+  };
+  zones: ZoneConfigs;
+  age: number;
+  facadeOrientation: string; // Key of FACADE_ORIENTATIONS, e.g. "West"
+  overhangDepth: number;
+  cladding?: CladdingParameters; // Generator parameters of parametric facades
+}
@@ -0,0 +1,75 @@
+import { MaterialCatalog, TreatmentEntry } from "../config/catalog";
+import { AGING_TIMELINE_YEARS, MaintenanceAction } from "../config/constants";
+
+// Renovation interval in years by treatment id
+export interface RenovationIntervals {
+  [treatmentId: string]: number;
+}
+
+export interface RenovationSettings {
+  enabled: boolean; // Whether renovations reset the aging
+  intervals: RenovationIntervals;
+}
+
+export interface MaintenanceEvent {
+  year: number;
+  action: MaintenanceAction;
+}
+
+/** Renovations switched off, at the intervals of the catalog treatments */
+export function defaultRenovation(catalog: MaterialCatalog): RenovationSettings {
+  return {
+    enabled: false,
+    intervals: Object.fromEntries(
+      catalog.treatments.flatMap(({ id, maintenance }) =>
+        maintenance ? [[id, maintenance.intervalYears]] : []
+      )
+    ),
+  };
+}
+
+// Ages are handled in whole months to avoid rounding at the renovations
+const toMonths = (years: number) => Math.round(years * 12);
+
+/**
+ * Age the material of a treatment shows: the time since its last renovation,
+ * or since installation when it is never renovated.
+ */
+export function renovatedAge(
+  age: number,
+  treatmentId: string,
+  intervals?: RenovationIntervals
+): number {
+  // Only treatments with maintenance have an interval
+  const interval = intervals?.[treatmentId];
+  if (!interval) return age;
+  return (toMonths(age) % toMonths(interval)) / 12;
+}
+
+/** Renovations of a treatment within the timeline, in years after installation */
+export function maintenanceEvents(
+  treatment: TreatmentEntry,
+  intervals: RenovationIntervals
+): MaintenanceEvent[] {
+  const { maintenance } = treatment;
+  const interval = intervals[treatment.id] ?? maintenance?.intervalYears;
+  if (!maintenance || !interval) return [];
+  const events: MaintenanceEvent[] = [];
+  for (let year = interval; year <= AGING_TIMELINE_YEARS; year += interval) {
+    events.push({ year, action: maintenance.action });
+  }
+  return events;
+}
+
+/** Age in years and months, e.g. "12 Jahre, 3 Monate" */
+export function formatAge(age: number): string {
+  const months = toMonths(age);
+  if (months === 0) return "neu";
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const parts = [
+    ...(years > 0 ? [`${years} ${years === 1 ? "Jahr" : "Jahre"}`] : []),
+    ...(rest > 0 ? [`${rest} ${rest === 1 ? "Monat" : "Monate"}`] : []),
+  ];
+  return parts.join(", ");
+}
@@ -0,0 +1,651 @@
+import {
+  Box3,
+  BoxGeometry,
+  BufferAttribute,
+  BufferGeometry,
+  Group,
+  Matrix4,
+  Mesh,
+  MeshStandardMaterial,
+  Object3D,
+  Shape,
+  ShapeGeometry,
+  Vector2,
+  Vector3,
+} from "three";
+import { DEFAULT_ZONE } from "../config/constants";
+import { BuildingParameters } from "../config/models";
+import { detectZone } from "./modelUtils";
+
+// Splash zone below the cladding, roof slab thickness
+const PLINTH_HEIGHT = 0.3;
+const ROOF_THICKNESS = 0.25;
+
+// Window and door frames; the cladding is cut back into the frame so its
+// open profile ends stay hidden
+const FRAME_WIDTH = 0.06;
+const FRAME_PROJECTION = 0.02;
+const DOOR_WIDTH = 1.0;
+const DOOR_HEIGHT = 2.1;
+
+// Context geometry keeps these materials, only the cladding is configured
+const WALL_MATERIAL = new MeshStandardMaterial({ color: 0xd9d6d0, roughness: 0.9 });
+const PLINTH_MATERIAL = new MeshStandardMaterial({ color: 0x9a9a96, roughness: 0.95 });
+const ROOF_MATERIAL = new MeshStandardMaterial({ color: 0x55575a, roughness: 0.8 });
+const GLASS_MATERIAL = new MeshStandardMaterial({
+  color: 0x2f3b44,
+  roughness: 0.05,
+  metalness: 0.3,
+});
+const DOOR_MATERIAL = new MeshStandardMaterial({ color: 0x4a4a4a, roughness: 0.6 });
+
+// Replaced by the zone materials once the building is shown
+const PLACEHOLDER = new MeshStandardMaterial();
+
+// Inside where a·u + b·v + c >= 0, in wall coordinates
+type HalfPlane = [number, number, number];
+
+// Interleaved position, normal and, if the module has them, uv
+type ClipVertex = number[];
+
+interface Opening {
+  u0: number;
+  v0: number;
+  u1: number;
+  v1: number;
+  door: boolean;
+}
+
+// A wall in its own frame: u runs along the footprint edge from left to
+// right seen from outside, v up, and z out of the wall surface
+interface Wall {
+  name: string;
+  matrix: Matrix4;
+  outline: Vector2[]; // Counter-clockwise, from the ground
+  openings: Opening[];
+}
+
+// Triangles of one module mesh in module coordinates
+interface ModuleMesh {
+  name: string;
+  zone: string;
+  data: Float32Array; // Three ClipVertex per triangle
+  stride: number;
+  hasUV: boolean;
+  strip: "column" | "row" | "tile"; // Tiles merged into one element, or all
+}
+
+function moduleMeshes(module: Object3D): { meshes: ModuleMesh[]; box: Box3 } {
+  module.updateMatrixWorld(true);
+  const toModule = module.matrixWorld.clone().invert();
+  const meshes: ModuleMesh[] = [];
+  const box = new Box3();
+
+  module.traverse((child) => {
+    if (!(child instanceof Mesh) || child.userData.context) return;
+    const geometry = child.geometry as BufferGeometry;
+    const position = geometry.attributes.position;
+    if (!position) return;
+    if (!geometry.attributes.normal) geometry.computeVertexNormals();
+    const normal = geometry.attributes.normal;
+    const uv = geometry.attributes.uv;
+    const matrix = toModule.clone().multiply(child.matrixWorld);
+
+    const stride = uv ? 8 : 6;
+    const index = geometry.index;
+    const count = index ? index.count : position.count;
+    const data = new Float32Array(count * stride);
+    const p = new Vector3();
+    const n = new Vector3();
+    const extent = new Box3();
+    for (let k = 0; k < count; k++) {
+      const i = index ? index.getX(k) : k;
+      p.fromBufferAttribute(position, i).applyMatrix4(matrix);
+      n.fromBufferAttribute(normal, i).transformDirection(matrix);
+      extent.expandByPoint(p);
+      data.set([p.x, p.y, p.z, n.x, n.y, n.z], k * stride);
+      if (uv) data.set([uv.getX(i), uv.getY(i)], k * stride + 6);
+    }
+    box.union(extent);
+
+    // Long elements are merged along their direction, like one board
+    const size = extent.getSize(new Vector3());
+    const strip =
+      size.y > 1.5 * size.x ? "column" : size.x > 1.5 * size.y ? "row" : "tile";
+    meshes.push({
+      name: child.name,
+      zone: child.userData.zone ?? detectZone(child),
+      data,
+      stride,
+      hasUV: !!uv,
+      strip,
+    });
+  });
+  return { meshes, box };
+}
+
+/**
+ * Distance at which the module repeats across and along its boards. Boards
+ * may reach beyond the module, so the spacing of the cladding boards times
+ * their count is used where it can be measured.
+ */
+function modulePitch(meshes: ModuleMesh[], box: Box3): Vector2 {
+  const size = box.getSize(new Vector3());
+  const pitch = new Vector2(size.x, size.y);
+  const boards = meshes.filter((m) => m.zone === DEFAULT_ZONE && m.strip !== "tile");
+  if (boards.length < 2 || boards.some((m) => m.strip !== boards[0].strip)) return pitch;
+
+  // Vertical boards are laid along x, horizontal ones along y
+  const axis = boards[0].strip === "column" ? 0 : 1;
+  const starts = boards
+    .map((m) => {
+      let min = Infinity;
+      for (let k = axis; k < m.data.length; k += m.stride) min = Math.min(min, m.data[k]);
+      return min;
+    })
+    .sort((a, b) => a - b);
+  const steps = starts
+    .slice(1)
+    .map((start, i) => start - starts[i])
+    .sort((a, b) => a - b);
+  const step = steps[Math.floor(steps.length / 2)];
+  const measured = step * boards.length;
+  const extent = axis === 0 ? size.x : size.y;
+  if (measured > 0.5 * extent && measured < 1.05 * extent) {
+    pitch.setComponent(axis, measured);
+  }
+  return pitch;
+}
+
+function clipPolygon(polygon: ClipVertex[], [a, b, c]: HalfPlane): ClipVertex[] {
+  const result: ClipVertex[] = [];
+  polygon.forEach((current, i) => {
+    const next = polygon[(i + 1) % polygon.length];
+    const dc = a * current[0] + b * current[1] + c;
+    const dn = a * next[0] + b * next[1] + c;
+    if (dc >= 0) result.push(current);
+    if (dc >= 0 !== dn >= 0) {
+      const t = dc / (dc - dn);
+      result.push(current.map((value, k) => value + (next[k] - value) * t));
+    }
+  });
+  return result;
+}
+
+const clipRegion = (polygon: ClipVertex[], region: HalfPlane[]) =>
+  region.reduce(
+    (clipped, plane) => (clipped.length < 3 ? clipped : clipPolygon(clipped, plane)),
+    polygon
+  );
+
+// Half-planes left of the edges of a counter-clockwise convex outline
+function outlinePlanes(outline: Vector2[]): HalfPlane[] {
+  return outline.map((p, i) => {
+    const q = outline[(i + 1) % outline.length];
+    const du = q.x - p.x;
+    const dv = q.y - p.y;
+    return [-dv, du, dv * p.x - du * p.y];
+  });
+}
+
+// The outside of a rectangle as four convex regions
+function outsideRegions({ u0, v0, u1, v1 }: Opening): HalfPlane[][] {
+  const between: HalfPlane[] = [
+    [1, 0, -u0],
+    [-1, 0, u1],
+  ];
+  return [
+    [[-1, 0, u0]],
+    [[1, 0, -u1]],
+    [...between, [0, -1, v0]],
+    [...between, [0, 1, -v1]],
+  ];
+}
+
+const overlaps = (polygon: ClipVertex[], { u0, v0, u1, v1 }: Opening) =>
+  polygon.some((p) => p[0] > u0) &&
+  polygon.some((p) => p[0] < u1) &&
+  polygon.some((p) => p[1] > v0) &&
+  polygon.some((p) => p[1] < v1);
+
+// Cut rectangle of an opening, reaching halfway into its frame
+const cutOf = (opening: Opening): Opening => ({
+  ...opening,
+  u0: opening.u0 - FRAME_WIDTH / 2,
+  v0: opening.v0 - FRAME_WIDTH / 2,
+  u1: opening.u1 + FRAME_WIDTH / 2,
+  v1: opening.v1 + FRAME_WIDTH / 2,
+});
+
+/**
+ * Tiles the module across a wall and trims it to the wall outline and the
+ * openings. Returns one geometry per module mesh and board column or row,
+ * in wall coordinates.
+ */
+function cladWall(
+  wall: Wall,
+  meshes: ModuleMesh[],
+  box: Box3,
+  pitch: Vector2
+): { mesh: ModuleMesh; geometry: BufferGeometry }[] {
+  const outline = outlinePlanes(wall.outline);
+  const cuts = wall.openings.map(cutOf);
+  const size = box.getSize(new Vector3());
+  const width = Math.max(...wall.outline.map((p) => p.x));
+  const top = Math.max(...wall.outline.map((p) => p.y));
+  const columns = Math.ceil(width / pitch.x - 1e-6);
+  const rows = Math.ceil((top - PLINTH_HEIGHT) / pitch.y - 1e-6);
+
+  // Points on the outline count as inside, despite rounding
+  const inside = (u: number, v: number) => {
+    for (const [a, b, c] of outline) {
+      if (a * u + b * v + c < -1e-6) return false;
+    }
+    return true;
+  };
+  const hitsCut = (u0: number, v0: number, u1: number, v1: number) =>
+    cuts.some((cut) => u1 > cut.u0 && u0 < cut.u1 && v1 > cut.v0 && v0 < cut.v1);
+
+  // Untouched tiles are copied as a whole, the others clipped per triangle
+  const strips = new Map<
+    string,
+    { mesh: ModuleMesh; chunks: Float32Array[]; values: number[] }
+  >();
+  for (let i = 0; i < columns; i++) {
+    for (let j = 0; j < rows; j++) {
+      const u0 = i * pitch.x;
+      const v0 = PLINTH_HEIGHT + j * pitch.y;
+      const u1 = u0 + size.x;
+      const v1 = v0 + size.y;
+      const corners = [
+        [u0, v0],
+        [u1, v0],
+        [u1, v1],
+        [u0, v1],
+      ];
+      if (outline.some(([a, b, c]) => corners.every(([u, v]) => a * u + b * v + c < 0))) {
+        continue; // Above the roof line
+      }
+      const whole = corners.every(([u, v]) => inside(u, v)) && !hitsCut(u0, v0, u1, v1);
+      const offset = [u0 - box.min.x, v0 - box.min.y, -box.min.z];
+
+      meshes.forEach((mesh, m) => {
+        const key = `${m}:${mesh.strip === "column" ? i : mesh.strip === "row" ? j : ""}`;
+        let strip = strips.get(key);
+        if (!strip) {
+          strip = { mesh, chunks: [], values: [] };
+          strips.set(key, strip);
+        }
+        const { data, stride } = mesh;
+        if (whole) {
+          const chunk = data.slice();
+          for (let k = 0; k < chunk.length; k += stride) {
+            chunk[k] += offset[0];
+            chunk[k + 1] += offset[1];
+            chunk[k + 2] += offset[2];
+          }
+          strip.chunks.push(chunk);
+          return;
+        }
+
+        const shift = Array.from({ length: stride }, (_, k) => (k < 3 ? offset[k] : 0));
+        for (let t = 0; t < data.length; t += 3 * stride) {
+          let clear = true;
+          let uMin = Infinity;
+          let vMin = Infinity;
+          let uMax = -Infinity;
+          let vMax = -Infinity;
+          for (let k = t; k < t + 3 * stride; k += stride) {
+            const u = data[k] + offset[0];
+            const v = data[k + 1] + offset[1];
+            clear = clear && inside(u, v);
+            uMin = Math.min(uMin, u);
+            vMin = Math.min(vMin, v);
+            uMax = Math.max(uMax, u);
+            vMax = Math.max(vMax, v);
+          }
+          if (clear && !hitsCut(uMin, vMin, uMax, vMax)) {
+            for (let k = 0; k < 3 * stride; k++) strip.values.push(data[t + k] + shift[k % stride]);
+            continue;
+          }
+
+          const triangle = [0, 1, 2].map((k) =>
+            Array.from(
+              data.subarray(t + k * stride, t + (k + 1) * stride),
+              (value, c) => value + shift[c]
+            )
+          );
+          let pieces = [clipRegion(triangle, outline)];
+          cuts.forEach((cut) => {
+            pieces = pieces.flatMap((piece) =>
+              piece.length >= 3 && overlaps(piece, cut)
+                ? outsideRegions(cut).map((region) => clipRegion(piece, region))
+                : [piece]
+            );
+          });
+          pieces.forEach((piece) => {
+            for (let k = 1; k + 1 < piece.length; k++) {
+              strip!.values.push(...piece[0], ...piece[k], ...piece[k + 1]);
+            }
+          });
+        }
+      });
+    }
+  }
+
+  return [...strips.values()]
+    .filter(({ chunks, values }) => chunks.length > 0 || values.length > 0)
+    .map(({ mesh, chunks, values }) => {
+      const data = new Float32Array(
+        chunks.reduce((sum, chunk) => sum + chunk.length, 0) + values.length
+      );
+      let length = 0;
+      chunks.forEach((chunk) => {
+        data.set(chunk, length);
+        length += chunk.length;
+      });
+      data.set(values, length);
+
+      const count = data.length / mesh.stride;
+      const attribute = (offset: number, itemSize: number) => {
+        const array = new Float32Array(count * itemSize);
+        for (let k = 0; k < count; k++) {
+          for (let c = 0; c < itemSize; c++) {
+            array[k * itemSize + c] = data[k * mesh.stride + offset + c];
+          }
+        }
+        return new BufferAttribute(array, itemSize);
+      };
+      const geometry = new BufferGeometry();
+      geometry.setAttribute("position", attribute(0, 3));
+      geometry.setAttribute("normal", attribute(3, 3));
+      if (mesh.hasUV) geometry.setAttribute("uv", attribute(6, 2));
+      return { mesh, geometry };
+    });
+}
+
+// Box between two corners, in the coordinates of the given matrix. Without
+// UVs, so textures are projected in metres like on the bundled models.
+function box(min: Vector3, max: Vector3, matrix?: Matrix4): BufferGeometry {
+  const size = max.clone().sub(min);
+  const center = min.clone().add(max).multiplyScalar(0.5);
+  const geometry = new BoxGeometry(size.x, size.y, size.z).translate(center.x, center.y, center.z);
+  geometry.deleteAttribute("uv");
+  return matrix ? geometry.applyMatrix4(matrix) : geometry;
+}
+
+function contextMesh(name: string, geometry: BufferGeometry, material: MeshStandardMaterial) {
+  const mesh = new Mesh(geometry, material);
+  mesh.name = name;
+  mesh.userData.context = true;
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  return mesh;
+}
+
+function zonedMesh(name: string, zone: string, geometry: BufferGeometry) {
+  const mesh = new Mesh(geometry, PLACEHOLDER);
+  mesh.name = name;
+  mesh.userData.explicitZone = zone;
+  return mesh;
+}
+
+// Windows spread evenly over each storey, the door replaces the windows
+// it would overlap
+function wallOpenings(
+  width: number,
+  count: number,
+  params: BuildingParameters,
+  door: boolean
+): Opening[] {
+  const openings: Opening[] = [];
+  const doorWidth = Math.min(DOOR_WIDTH, width - 0.6);
+  const doorHeight = Math.min(DOOR_HEIGHT, params.storeyHeight - 0.3);
+  const entrance = door && doorWidth > 0.5 && doorHeight > 1.5;
+  if (entrance) {
+    openings.push({
+      u0: (width - doorWidth) / 2,
+      u1: (width + doorWidth) / 2,
+      v0: PLINTH_HEIGHT,
+      v1: PLINTH_HEIGHT + doorHeight,
+      door: true,
+    });
+  }
+
+  const slot = width / Math.max(count, 1);
+  const windowWidth = Math.min(params.windowWidth, slot - 0.6);
+  if (count < 1 || windowWidth < 0.4) return openings;
+  for (let storey = 0; storey < params.storeys; storey++) {
+    const base = storey * params.storeyHeight;
+    const v1 = base + params.storeyHeight - 0.4;
+    const v0 = Math.max(v1 - params.windowHeight, base + (storey === 0 ? PLINTH_HEIGHT : 0) + 0.2);
+    if (v1 - v0 < 0.3) continue;
+    for (let k = 0; k < count; k++) {
+      const center = slot * (k + 0.5);
+      const u0 = center - windowWidth / 2;
+      const u1 = center + windowWidth / 2;
+      const blocked =
+        entrance && storey === 0 && u1 > openings[0].u0 - 0.3 && u0 < openings[0].u1 + 0.3;
+      if (!blocked) openings.push({ u0, u1, v0, v1, door: false });
+    }
+  }
+  return openings;
+}
+
+const polygonArea = (points: Vector2[]) =>
+  Math.abs(
+    points.reduce((sum, p, i) => {
+      const q = points[(i + 1) % points.length];
+      return sum + p.x * q.y - q.x * p.y;
+    }, 0)
+  ) / 2;
+
+// Top of the walls below the roof at depth z of the footprint: the eave
+// on the long sides, rising along the gables or the shed
+function roofLineHeight(params: BuildingParameters, z: number): number {
+  const halfDepth = params.depth / 2;
+  const eave = params.storeys * params.storeyHeight;
+  const slope = Math.tan((params.roofPitch * Math.PI) / 180);
+  return params.roof === "gable"
+    ? eave + (halfDepth - Math.abs(z)) * slope
+    : params.roof === "shed"
+      ? eave + (halfDepth - z) * slope
+      : eave;
+}
+
+/**
+ * Builds a simple house clad with the facade module: the module is tiled
+ * across each wall above the plinth and trimmed to the wall outline, roof
+ * and openings. Cladding meshes keep the names and zones of the module, so
+ * they take the zone materials; corner profiles and window frames join the
+ * corner and frame zones, and carry the outward normal of their wall as
+ * `userData.wallNormal`. Walls, roof, plinth and glazing are marked as
+ * `userData.context` and keep their own materials. The footprint is centred
+ * on the origin with the front facing +Z.
+ */
+export function generateBuilding(module: Object3D, params: BuildingParameters): Group {
+  const { meshes, box: moduleBox } = moduleMeshes(module);
+  const pitch = modulePitch(meshes, moduleBox);
+  const depth = Math.max(moduleBox.max.z - moduleBox.min.z, 0.01);
+
+  const halfLength = params.length / 2;
+  const halfDepth = params.depth / 2;
+  const eave = params.storeys * params.storeyHeight;
+  const slope = Math.tan((params.roofPitch * Math.PI) / 180);
+  const roofHeight = (z: number) => roofLineHeight(params, z);
+
+  const group = new Group();
+  group.name = "Gebäude";
+  group.userData.building = { ...params };
+
+  // Walls counter-clockwise seen from above, starting with the front
+  const walls: Wall[] = [
+    { name: "Front", origin: [-halfLength, halfDepth], dir: [1, 0], length: params.length },
+    { name: "Rechts", origin: [halfLength, halfDepth], dir: [0, -1], length: params.depth },
+    { name: "Rückseite", origin: [halfLength, -halfDepth], dir: [-1, 0], length: params.length },
+    { name: "Links", origin: [-halfLength, -halfDepth], dir: [0, 1], length: params.depth },
+  ].map(({ name, origin, dir, length }, index) => {
+    const along = new Vector3(dir[0], 0, dir[1]);
+    const normal = new Vector3(-dir[1], 0, dir[0]);
+    const matrix = new Matrix4()
+      .makeBasis(along, new Vector3(0, 1, 0), normal)
+      .setPosition(origin[0], 0, origin[1]);
+    const heightAt = (u: number) => roofHeight(origin[1] + dir[1] * u);
+
+    const outline = [new Vector2(0, 0), new Vector2(length, 0), new Vector2(length, heightAt(length))];
+    if (params.roof === "gable" && dir[0] === 0) {
+      outline.push(new Vector2(length / 2, heightAt(length / 2)));
+    }
+    outline.push(new Vector2(0, heightAt(0)));
+
+    const front = index % 2 === 0;
+    const count = front
+      ? params.windowsPerStorey
+      : Math.round((params.windowsPerStorey * params.depth) / params.length);
+    const openings = wallOpenings(length, count, params, params.door && index === 0);
+    return { name, matrix, outline, openings };
+  });
+
+  let claddingArea = 0;
+  walls.forEach((wall) => {
+    // Masonry behind the cladding, closed at the openings by glazing
+    const shape = new Shape(wall.outline);
+    group.add(
+      contextMesh(`Wand ${wall.name}`, new ShapeGeometry(shape).applyMatrix4(wall.matrix), WALL_MATERIAL)
+    );
+
+    const cladOutline = wall.outline.map((p) => new Vector2(p.x, Math.max(p.y, PLINTH_HEIGHT)));
+    claddingArea +=
+      polygonArea(cladOutline) -
+      wall.openings.reduce((sum, o) => sum + (o.u1 - o.u0) * (o.v1 - o.v0), 0);
+    // The takeoff measures boards and frames in the plane of their wall
+    const wallNormal = new Vector3().setFromMatrixColumn(wall.matrix, 2).toArray();
+    const onWall = (mesh: Mesh) => {
+      mesh.userData.wallNormal = wallNormal;
+      return mesh;
+    };
+    cladWall({ ...wall, outline: cladOutline }, meshes, moduleBox, pitch).forEach(
+      ({ mesh, geometry }) =>
+        group.add(
+          onWall(zonedMesh(mesh.name || mesh.zone, mesh.zone, geometry.applyMatrix4(wall.matrix)))
+        )
+    );
+
+    wall.openings.forEach((opening, k) => {
+      const { u0, v0, u1, v1 } = opening;
+      const front = depth + FRAME_PROJECTION;
+      const frame = [
+        [u0 - FRAME_WIDTH, v0 - FRAME_WIDTH, u0, v1 + FRAME_WIDTH],
+        [u1, v0 - FRAME_WIDTH, u1 + FRAME_WIDTH, v1 + FRAME_WIDTH],
+        [u0, v0 - FRAME_WIDTH, u1, v0],
+        [u0, v1, u1, v1 + FRAME_WIDTH],
+      ].map(([a, b, c, d]) => box(new Vector3(a, b, 0), new Vector3(c, d, front), wall.matrix));
+      frame.forEach((geometry, side) =>
+        group.add(
+          onWall(zonedMesh(`Fensterrahmen ${wall.name} ${k + 1}.${side + 1}`, "frames", geometry))
+        )
+      );
+      group.add(
+        contextMesh(
+          opening.door ? `Tür ${wall.name}` : `Verglasung ${wall.name} ${k + 1}`,
+          box(new Vector3(u0, v0, 0), new Vector3(u1, v1, 0.01), wall.matrix),
+          opening.door ? DOOR_MATERIAL : GLASS_MATERIAL
+        )
+      );
+    });
+  });
+  group.userData.claddingArea = claddingArea;
+
+  // Corner profiles cover the cut ends where two walls meet
+  const corner = depth + FRAME_PROJECTION;
+  [
+    [1, 1],
+    [1, -1],
+    [-1, -1],
+    [-1, 1],
+  ].forEach(([sx, sz], k) => {
+    const x = sx * halfLength;
+    const z = sz * halfDepth;
+    const geometry = box(
+      new Vector3(Math.min(x, x + sx * corner), PLINTH_HEIGHT, Math.min(z, z + sz * corner)),
+      new Vector3(Math.max(x, x + sx * corner), roofHeight(z), Math.max(z, z + sz * corner))
+    );
+    group.add(zonedMesh(`Eckprofil ${k + 1}`, "corners", geometry));
+  });
+
+  group.add(
+    contextMesh(
+      "Sockel",
+      box(
+        new Vector3(-halfLength - depth, 0, -halfDepth - depth),
+        new Vector3(halfLength + depth, PLINTH_HEIGHT, halfDepth + depth)
+      ),
+      PLINTH_MATERIAL
+    )
+  );
+
+  // The roof overhangs the cladding, at least far enough to cover its cut top
+  const overhang = depth + Math.max(params.overhang, FRAME_PROJECTION);
+  const roofLength = params.length + 2 * overhang;
+  if (params.roof === "flat") {
+    group.add(
+      contextMesh(
+        "Dach",
+        box(
+          new Vector3(-roofLength / 2, eave, -halfDepth - overhang),
+          new Vector3(roofLength / 2, eave + ROOF_THICKNESS, halfDepth + overhang)
+        ),
+        ROOF_MATERIAL
+      )
+    );
+  } else {
+    // Slabs resting on the wall tops, from the ridge or back wall to the eave
+    const angle = Math.atan(slope);
+    const slabs =
+      params.roof === "gable"
+        ? [
+            { side: 1, from: 0 },
+            { side: -1, from: 0 },
+          ]
+        : [{ side: 1, from: -halfDepth - overhang }];
+    slabs.forEach(({ side, from }, k) => {
+      const to = side * (halfDepth + overhang);
+      const run = Math.abs(to - from);
+      const mid = (from + to) / 2;
+      const geometry = new BoxGeometry(roofLength, ROOF_THICKNESS, run / Math.cos(angle))
+        .rotateX(side * angle)
+        .translate(
+          0,
+          roofHeight(mid) + (ROOF_THICKNESS / 2) * Math.cos(angle),
+          mid + side * (ROOF_THICKNESS / 2) * Math.sin(angle)
+        );
+      group.add(contextMesh(`Dach ${k + 1}`, geometry, ROOF_MATERIAL));
+    });
+  }
+
+  return group;
+}
+
+/**
+ * World height of the roof edge above a point on the walls of a generated
+ * building, so the weathering measures the shelter of each wall from its own
+ * eave or verge. Expects the world matrix of the group to be up to date.
+ */
+export function buildingRoofLine(group: Object3D, params: BuildingParameters) {
+  const toLocal = group.matrixWorld.clone().invert();
+  const halfDepth = params.depth / 2;
+  const point = new Vector3();
+  return (worldPosition: Vector3) => {
+    point.copy(worldPosition).applyMatrix4(toLocal);
+    // Cladding and frames stand in front of the wall line
+    point.y = roofLineHeight(params, Math.min(Math.max(point.z, -halfDepth), halfDepth));
+    return point.applyMatrix4(group.matrixWorld).y;
+  };
+}
+
+// Frees the generated geometries when the building is replaced
+export function disposeBuilding(group: Group) {
+  group.traverse((child) => {
+    if (child instanceof Mesh) child.geometry.dispose();
+  });
+}
@@ -0,0 +1,97 @@
+import { Box3, PerspectiveCamera, Vector3 } from "three";
+
+export type PresetViewId = "front" | "corner" | "detail" | "section";
+
+// Predefined views, selectable with the number keys in this order
+export const PRESET_VIEWS: { id: PresetViewId; name: string }[] = [
+  { id: "front", name: "Frontal" },
+  { id: "corner", name: "Ecke 45°" },
+  { id: "detail", name: "Detail" },
+  { id: "section", name: "Schnitt" },
+];
+
+export interface CameraPose {
+  position: Vector3;
+  target: Vector3; // Orbit centre
+}
+
+// View saved by the user for one model
+export interface CameraBookmark extends CameraPose {
+  id: string;
+  name: string;
+  modelId: string;
+}
+
+export const VIEW_TRANSITION_MS = 800;
+
+export const easeInOutCubic = (t: number) =>
+  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+/**
+ * Pose looking at the centre of the box from the given direction, just far
+ * enough away that every corner of the box is in view.
+ */
+export function framePose(
+  box: Box3,
+  direction: Vector3,
+  camera: PerspectiveCamera,
+  margin = 1.1
+): CameraPose {
+  const target = box.getCenter(new Vector3());
+  const back = direction.clone().normalize();
+  const right = new Vector3(0, 1, 0).cross(back);
+  if (right.lengthSq() < 1e-6) right.set(1, 0, 0);
+  right.normalize();
+  const up = back.clone().cross(right);
+
+  const tanV = Math.tan((camera.fov * Math.PI) / 360);
+  const tanH = tanV * camera.aspect;
+  let distance = 0;
+  [box.min, box.max].forEach((a) =>
+    [box.min, box.max].forEach((b) =>
+      [box.min, box.max].forEach((c) => {
+        const corner = new Vector3(a.x, b.y, c.z).sub(target);
+        const depth = corner.dot(back);
+        distance = Math.max(
+          distance,
+          depth + Math.abs(corner.dot(right)) / tanH,
+          depth + Math.abs(corner.dot(up)) / tanV
+        );
+      })
+    )
+  );
+  return { position: target.clone().addScaledVector(back, distance * margin), target };
+}
+
+/**
+ * Predefined view of a facade, which faces +Z. The section view looks at the
+ * cut from the side the section plane removes.
+ */
+export function presetPose(
+  id: PresetViewId,
+  box: Box3,
+  camera: PerspectiveCamera,
+  sectionAxis: Vector3
+): CameraPose {
+  switch (id) {
+    case "front":
+      return framePose(box, new Vector3(0, 0, 1), camera);
+    case "corner":
+      return framePose(box, new Vector3(1, 0.35, 1), camera);
+    case "section":
+      return framePose(
+        box,
+        sectionAxis.clone().multiplyScalar(1.2).add(new Vector3(0.3, 0.3, 1)),
+        camera
+      );
+    case "detail": {
+      // Close-up of the front surface, at an angle to show the profile relief
+      const center = box.getCenter(new Vector3());
+      const size = box.getSize(new Vector3());
+      const target = new Vector3(center.x, center.y, box.max.z);
+      const distance = Math.min(Math.max(0.12 * Math.max(size.x, size.y), 0.6), 2);
+      const direction = new Vector3(0.6, 0.25, 1).normalize();
+      return { position: target.clone().addScaledVector(direction, distance), target };
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import {
+  CATALOG_URL,
+  CATALOG_VERSION,
+  MaterialCatalog,
+  SurfaceEntry,
+  TreatmentEntry,
+  TreatmentMaintenance,
+  WoodEntry,
+} from "../config/catalog";
+import {
+  AGING_TIMELINE_YEARS,
+  MAINTENANCE_ACTIONS,
+  MaintenanceAction,
+} from "../config/constants";
+import { fetchJson, isObject, Json, ValidationError, Validator } from "./validation";
+
+const CATALOG_ERROR = "Materialkatalog ungültig";
+
+const parseWood = (v: Validator) => (entry: Json, path: string): WoodEntry => ({
+  id: v.string(entry, "id", path),
+  name: v.string(entry, "name", path),
+  baseColor: v.rgb(entry, "baseColor", path),
+  roughness: v.number(entry, "roughness", path, 0, 1),
+  agingResistance: v.number(entry, "agingResistance", path, -1, 1),
+});
+
+const parseSurface = (v: Validator) => (entry: Json, path: string): SurfaceEntry => ({
+  id: v.string(entry, "id", path),
+  name: v.string(entry, "name", path),
+  roughnessOffset: v.number(entry, "roughnessOffset", path, -1, 1),
+  metalness: v.number(entry, "metalness", path, 0, 1),
+  envMapIntensity: v.number(entry, "envMapIntensity", path, 0, 5),
+  normalScale: v.number(entry, "normalScale", path, 0, 5),
+  grooveSpacing: v.optionalNumber(entry, "grooveSpacing", path, 0.002, 0.5),
+});
+
+const parseMaintenance = (v: Validator, entry: Json, path: string): TreatmentMaintenance => ({
+  action: v.oneOf(
+    entry,
+    "action",
+    path,
+    Object.keys(MAINTENANCE_ACTIONS) as MaintenanceAction[]
+  ),
+  intervalYears: v.number(entry, "intervalYears", path, 1, AGING_TIMELINE_YEARS),
+});
+
+const parseTreatment = (v: Validator) => (entry: Json, path: string): TreatmentEntry => ({
+  id: v.string(entry, "id", path),
+  name: v.string(entry, "name", path),
+  tintColor: entry.tintColor === undefined ? undefined : v.rgb(entry, "tintColor", path),
+  tintStrength: v.number(entry, "tintStrength", path, 0, 1),
+  brightness: v.optionalNumber(entry, "brightness", path, 0, 2),
+  roughnessOffset: v.number(entry, "roughnessOffset", path, -1, 1),
+  metalnessOffset: v.number(entry, "metalnessOffset", path, -1, 1),
+  envMapFactor: v.number(entry, "envMapFactor", path, 0, 5),
+  agingResistance: v.number(entry, "agingResistance", path, -1, 1),
+  colors: v.colorMap(entry, "colors", path),
+  maintenance:
+    entry.maintenance === undefined
+      ? undefined
+      : parseMaintenance(v, v.object(entry, "maintenance", path), `${path}.maintenance`),
+});
+
+export function validateCatalog(data: unknown): MaterialCatalog {
+  const v = new Validator();
+  if (!isObject(data)) {
+    throw new ValidationError(CATALOG_ERROR, ["Katalog: erwartet ein JSON-Objekt"]);
+  }
+
+  if (data.version !== CATALOG_VERSION) {
+    v.fail("version", `erwartet Version ${CATALOG_VERSION}, ist ${JSON.stringify(data.version)}`);
+  }
+
+  const woods = v.list(data, "woods", parseWood(v));
+  const surfaces = v.list(data, "surfaces", parseSurface(v));
+  const treatments = v.list(data, "treatments", parseTreatment(v));
+
+  const defaults = isObject(data.defaults) ? data.defaults : {};
+  if (!isObject(data.defaults)) v.fail("defaults", "erwartet ein Objekt");
+  const checkDefault = (key: string, entries: { id: string }[]) => {
+    const id = v.string(defaults, key, "defaults");
+    if (id && !entries.some((e) => e.id === id)) {
+      v.fail(`defaults.${key}`, `unbekannte Id "${id}"`);
+    }
+    return id;
+  };
+
+  const textureSets: MaterialCatalog["textureSets"] = {};
+  const rawSets = data.textureSets ?? {};
+  if (!isObject(rawSets)) {
+    v.fail("textureSets", "erwartet ein Objekt");
+  } else {
+    Object.entries(rawSets).forEach(([key, set]) => {
+      const path = `textureSets.${key}`;
+      const known = woods.some((w) =>
+        surfaces.some((s) => key === `${w.id}_${s.id}`)
+      );
+      if (!known) v.fail(path, "Schlüssel muss <holz-id>_<oberflächen-id> sein");
+      if (!isObject(set)) {
+        v.fail(path, "erwartet ein Objekt");
+        return;
+      }
+      textureSets[key] = {
+        diffuse: v.string(set, "diffuse", path),
+        normal: v.string(set, "normal", path),
+        roughness: v.string(set, "roughness", path),
+        tileSize: v.number(set, "tileSize", path, 0.01, 100),
+      };
+    });
+  }
+
+  const catalog: MaterialCatalog = {
+    version: CATALOG_VERSION,
+    defaults: {
+      wood: checkDefault("wood", woods),
+      surface: checkDefault("surface", surfaces),
+      treatment: checkDefault("treatment", treatments),
+    },
+    woods,
+    surfaces,
+    treatments,
+    textureSets,
+  };
+
+  if (v.errors.length > 0) {
+    throw new ValidationError(CATALOG_ERROR, v.errors);
+  }
+  return catalog;
+}
+
+export async function loadCatalog(url: string = CATALOG_URL): Promise<MaterialCatalog> {
+  return validateCatalog(await fetchJson(url, CATALOG_ERROR));
+}
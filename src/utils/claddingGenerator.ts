@@ -0,0 +1,428 @@
+import {
+  BufferAttribute,
+  BufferGeometry,
+  Group,
+  Mesh,
+  MeshStandardMaterial,
+  Plane,
+  ShapeUtils,
+  Vector2,
+  Vector3,
+} from "three";
+import {
+  CladdingParameters,
+  ModelEntry,
+  PROFILE_TYPES,
+  ProfileType,
+} from "../config/models";
+
+const MM = 0.001;
+
+// Batten cross-section in millimetres
+const BATTEN_WIDTH = 50;
+const BATTEN_DEPTH = 30;
+
+// Overlap of lap siding boards and width of the cover board beyond the joint
+const LAP_OVERLAP = 25;
+const COVER_OVERLAP = 20;
+
+// Tongue length of tongue-and-groove boards
+const TONGUE = 10;
+
+// Slant of rhombus slats, horizontal offset per unit of thickness
+const RHOMBUS_SLANT = 0.5;
+
+// A board runs along `dir` in the facade plane. The profile is given in
+// (across, depth) coordinates, with across = dir × normal, and is extruded
+// between the start and end plane, so diagonal boards are cut to the
+// facade outline.
+interface BoardFrame {
+  origin: Vector3;
+  dir: Vector3;
+  start: Plane;
+  end: Plane;
+}
+
+const NORMAL = new Vector3(0, 0, 1);
+
+// Replaced by the zone materials once the panel is shown
+const PLACEHOLDER = new MeshStandardMaterial();
+
+function triangleArea(a: Vector2, b: Vector2, c: Vector2) {
+  return (b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y);
+}
+
+/**
+ * Extrudes a closed profile between two cutting planes. UVs are in metres:
+ * u runs around the profile, v along the board, so wood grain follows the
+ * board direction.
+ */
+function extrudeProfile(
+  profile: Vector2[],
+  frame: BoardFrame
+): BufferGeometry | null {
+  const contour = ShapeUtils.isClockWise(profile) ? [...profile].reverse() : profile;
+  const across = new Vector3().crossVectors(frame.dir, NORMAL).normalize();
+
+  // Profile points moved along the board onto a cutting plane
+  const cut = (plane: Plane) =>
+    contour.map((p) => {
+      const base = frame.origin
+        .clone()
+        .addScaledVector(across, p.x)
+        .addScaledVector(NORMAL, p.y);
+      const s = -plane.distanceToPoint(base) / plane.normal.dot(frame.dir);
+      return { position: base.addScaledVector(frame.dir, s), along: s };
+    });
+  const start = cut(frame.start);
+  const end = cut(frame.end);
+
+  // Slivers at the facade corners, where the planes cross within the board
+  if (start.some((vertex, k) => end[k].along <= vertex.along)) return null;
+
+  const positions: number[] = [];
+  const uvs: number[] = [];
+  const push = (position: Vector3, u: number, v: number) => {
+    positions.push(position.x, position.y, position.z);
+    uvs.push(u, v);
+  };
+
+  // Sides, one quad per profile edge
+  let perimeter = 0;
+  for (let i = 0; i < contour.length; i++) {
+    const j = (i + 1) % contour.length;
+    const next = perimeter + contour[i].distanceTo(contour[j]);
+    const quad: [typeof start[number], number][] = [
+      [start[i], perimeter],
+      [end[i], perimeter],
+      [end[j], next],
+      [start[i], perimeter],
+      [end[j], next],
+      [start[j], next],
+    ];
+    quad.forEach(([vertex, u]) => push(vertex.position, u, vertex.along));
+    perimeter = next;
+  }
+
+  // End caps; the counter-clockwise profile faces against the board direction
+  const triangles = ShapeUtils.triangulateShape(contour, []).map((t) =>
+    triangleArea(contour[t[0]], contour[t[1]], contour[t[2]]) < 0
+      ? [t[0], t[2], t[1]]
+      : t
+  );
+  triangles.forEach((t) => {
+    t.forEach((k) => push(start[k].position, contour[k].x, contour[k].y));
+    [t[0], t[2], t[1]].forEach((k) =>
+      push(end[k].position, contour[k].x, contour[k].y)
+    );
+  });
+
+  const geometry = new BufferGeometry();
+  geometry.setAttribute("position", new BufferAttribute(new Float32Array(positions), 3));
+  geometry.setAttribute("uv", new BufferAttribute(new Float32Array(uvs), 2));
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+const rectangle = (width: number, depth: number, z = 0) => [
+  new Vector2(0, z),
+  new Vector2(width, z),
+  new Vector2(width, z + depth),
+  new Vector2(0, z + depth),
+];
+
+interface BoardProfile {
+  shape: Vector2[];
+  offset: number; // Across the board, relative to its slot
+}
+
+// Cross-sections of one board slot in metres and the spacing between slots
+function profileLayout(
+  profile: ProfileType,
+  width: number,
+  thickness: number,
+  gap: number
+): { pitch: number; boards: BoardProfile[] } {
+  switch (profile) {
+    case "board_batten": {
+      // Base boards with open joints, covered by a second layer on top
+      const cover = gap + 2 * COVER_OVERLAP * MM;
+      return {
+        pitch: width + gap,
+        boards: [
+          { shape: rectangle(width, thickness), offset: 0 },
+          {
+            shape: rectangle(cover, thickness, thickness),
+            offset: width + gap / 2 - cover / 2,
+          },
+        ],
+      };
+    }
+    case "lap": {
+      // Each board rests on the one below, so its lower edge sticks out.
+      // Across runs against the board direction, downwards for horizontal boards.
+      const overlap = Math.min(LAP_OVERLAP * MM, width / 2);
+      return {
+        pitch: width - overlap,
+        boards: [
+          {
+            shape: [
+              new Vector2(0, 0),
+              new Vector2(width, thickness),
+              new Vector2(width, 2 * thickness),
+              new Vector2(0, thickness),
+            ],
+            offset: 0,
+          },
+        ],
+      };
+    }
+    case "rhombus": {
+      const slant = thickness * RHOMBUS_SLANT;
+      return {
+        pitch: width + gap,
+        boards: [
+          {
+            shape: [
+              new Vector2(0, 0),
+              new Vector2(width, 0),
+              new Vector2(width - slant, thickness),
+              new Vector2(-slant, thickness),
+            ],
+            offset: slant / 2,
+          },
+        ],
+      };
+    }
+    case "tongue_groove": {
+      // Closed joints; the tongue fills the groove of the next board
+      const tongue = Math.min(TONGUE * MM, width / 4);
+      const low = thickness / 3;
+      const high = (2 * thickness) / 3;
+      return {
+        pitch: width,
+        boards: [
+          {
+            shape: [
+              new Vector2(0, 0),
+              new Vector2(width, 0),
+              new Vector2(width, low),
+              new Vector2(width + tongue, low),
+              new Vector2(width + tongue, high),
+              new Vector2(width, high),
+              new Vector2(width, thickness),
+              new Vector2(0, thickness),
+              new Vector2(0, high),
+              new Vector2(tongue, high),
+              new Vector2(tongue, low),
+              new Vector2(0, low),
+            ],
+            offset: 0,
+          },
+        ],
+      };
+    }
+  }
+}
+
+// Facade outline as planes with normals pointing inwards
+function outlinePlanes(width: number, height: number) {
+  return {
+    left: new Plane(new Vector3(1, 0, 0), width / 2),
+    right: new Plane(new Vector3(-1, 0, 0), width / 2),
+    bottom: new Plane(new Vector3(0, 1, 0), 0),
+    top: new Plane(new Vector3(0, -1, 0), height),
+  };
+}
+
+// Clips a line through the facade to its outline and returns the planes it
+// enters and leaves through, or null if it misses the facade
+function clipLine(
+  origin: Vector3,
+  dir: Vector3,
+  planes: Plane[]
+): { start: Plane; end: Plane } | null {
+  let from = -Infinity;
+  let to = Infinity;
+  let start: Plane | null = null;
+  let end: Plane | null = null;
+  for (const plane of planes) {
+    const facing = plane.normal.dot(dir);
+    const distance = plane.distanceToPoint(origin);
+    if (Math.abs(facing) < 1e-9) {
+      if (distance < 0) return null;
+      continue;
+    }
+    const t = -distance / facing;
+    if (facing > 0 && t > from) {
+      from = t;
+      start = plane;
+    } else if (facing < 0 && t < to) {
+      to = t;
+      end = plane;
+    }
+  }
+  if (!start || !end || to - from <= 0) return null;
+  return { start, end };
+}
+
+// Lays out board slots across the facade. Slots are spaced along `across`
+// and every slot whose centre line crosses the facade becomes a board.
+function layoutBoards(
+  group: Group,
+  params: CladdingParameters,
+  dir: Vector3,
+  slots: { first: Vector3; count: number },
+  pitch: number,
+  boards: BoardProfile[]
+) {
+  const planes = Object.values(
+    outlinePlanes(params.facadeWidth, params.facadeHeight)
+  );
+  const across = new Vector3().crossVectors(dir, NORMAL).normalize();
+  let index = 0;
+
+  for (let slot = 0; slot < slots.count; slot++) {
+    boards.forEach((board) => {
+      const origin = slots.first
+        .clone()
+        .addScaledVector(across, slot * pitch + board.offset);
+      const xs = board.shape.map((p) => p.x);
+      const centre = origin
+        .clone()
+        .addScaledVector(across, (Math.min(...xs) + Math.max(...xs)) / 2);
+      const line = clipLine(centre, dir, planes);
+      if (!line) return;
+
+      const geometry = extrudeProfile(board.shape, {
+        origin,
+        dir,
+        start: line.start,
+        end: line.end,
+      });
+      if (!geometry) return;
+      const mesh = new Mesh(geometry, PLACEHOLDER);
+      mesh.name = `Schalung ${++index}`;
+      group.add(mesh);
+    });
+  }
+}
+
+/**
+ * Builds a cladding panel from parameters. Boards and battens are named like
+ * the GLB exports, so they map onto the cladding and batten zones. The panel
+ * spans x in [-width/2, width/2], y in [0, height], with the battens behind
+ * z = 0 and the boards in front.
+ */
+export function generateCladding(params: CladdingParameters): Group {
+  const width = params.facadeWidth;
+  const height = params.facadeHeight;
+  const thickness = params.thickness * MM;
+  const boardWidth = params.boardWidth * MM;
+  const gap = params.gap * MM;
+  const { pitch, boards } = profileLayout(params.profile, boardWidth, thickness, gap);
+  const outline = outlinePlanes(width, height);
+
+  const group = new Group();
+  group.name = "Parametrische Fassade";
+  group.userData.cladding = { ...params };
+
+  if (params.orientation === "vertical") {
+    // Across = dir × normal points to +x
+    layoutBoards(
+      group,
+      params,
+      new Vector3(0, 1, 0),
+      { first: new Vector3(-width / 2, 0, 0), count: Math.ceil(width / pitch) },
+      pitch,
+      boards
+    );
+  } else if (params.orientation === "horizontal") {
+    // Across points down, so boards are laid from the top edge
+    layoutBoards(
+      group,
+      params,
+      new Vector3(1, 0, 0),
+      { first: new Vector3(0, height, 0), count: Math.ceil(height / pitch) },
+      pitch,
+      boards
+    );
+  } else {
+    // 45° boards rising to the right, laid from the top left corner
+    const dir = new Vector3(1, 1, 0).normalize();
+    const span = (width + height) / Math.SQRT2;
+    layoutBoards(
+      group,
+      params,
+      dir,
+      { first: new Vector3(-width / 2, height, 0), count: Math.ceil(span / pitch) },
+      pitch,
+      boards
+    );
+  }
+
+  // Battens run across the boards, vertical behind horizontal and diagonal
+  // boards
+  const battenDir =
+    params.orientation === "vertical" ? new Vector3(1, 0, 0) : new Vector3(0, 1, 0);
+  const battenProfile = rectangle(BATTEN_WIDTH * MM, BATTEN_DEPTH * MM, -BATTEN_DEPTH * MM);
+  const battenWidth = BATTEN_WIDTH * MM;
+  const spacing = Math.max(params.battenSpacing * MM, battenWidth);
+  const extent = params.orientation === "vertical" ? height : width;
+  const battenCount = Math.floor((extent - battenWidth) / spacing) + 1;
+  const battenOffset = (extent - battenWidth - (battenCount - 1) * spacing) / 2;
+
+  for (let i = 0; i < battenCount; i++) {
+    const position = battenOffset + i * spacing;
+    // Across points down for horizontal battens, so they start at their top edge
+    const frame =
+      params.orientation === "vertical"
+        ? {
+            origin: new Vector3(0, position + battenWidth, 0),
+            start: outline.left,
+            end: outline.right,
+          }
+        : {
+            origin: new Vector3(-width / 2 + position, 0, 0),
+            start: outline.bottom,
+            end: outline.top,
+          };
+    const geometry = extrudeProfile(battenProfile, { ...frame, dir: battenDir });
+    if (!geometry) continue;
+    const mesh = new Mesh(geometry, PLACEHOLDER);
+    mesh.name = `Lattung ${i + 1}`;
+    group.add(mesh);
+  }
+
+  return group;
+}
+
+// Frees the generated geometries when the panel is replaced
+export function disposeCladding(group: Group) {
+  group.traverse((child) => {
+    if (child instanceof Mesh) child.geometry.dispose();
+  });
+}
+
+// Profile, orientation and board dimensions for the model info panel
+export function describeCladding(
+  params: CladdingParameters
+): Pick<ModelEntry, "orientation" | "profileType" | "board"> {
+  const { pitch } = profileLayout(
+    params.profile,
+    params.boardWidth * MM,
+    params.thickness * MM,
+    params.gap * MM
+  );
+  return {
+    orientation: params.orientation,
+    profileType:
+      Object.entries(PROFILE_TYPES).find(([, id]) => id === params.profile)?.[0] ??
+      params.profile,
+    board: {
+      width: params.boardWidth,
+      thickness: params.thickness,
+      coverWidth: Math.round(pitch / MM),
+    },
+  };
+}
@@ -0,0 +1,69 @@
+import { MaterialCatalog, ZoneMaterialConfig } from "../config/catalog";
+import { formatAge } from "./agingUtils";
+
+export type CompareLayout = "off" | "2" | "4" | "slider";
+
+// Rectangle as fractions of the canvas, origin top left
+export interface CompareRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CompareViewport {
+  viewport: CompareRect; // Area the camera projects onto
+  scissor: CompareRect; // Part of it that is drawn
+}
+
+const FULL: CompareRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const compareViewCount = (layout: CompareLayout) =>
+  layout === "off" ? 1 : layout === "4" ? 4 : 2;
+
+/**
+ * Screen areas of the compare views in the order A, B, C, D. The before/after
+ * slider shows both views over the whole canvas, each cut off at the split.
+ */
+export function compareViewports(layout: CompareLayout, split: number): CompareViewport[] {
+  const cell = (x: number, y: number, width: number, height: number) => {
+    const rect = { x, y, width, height };
+    return { viewport: rect, scissor: rect };
+  };
+  switch (layout) {
+    case "off":
+      return [{ viewport: FULL, scissor: FULL }];
+    case "2":
+      return [cell(0, 0, 0.5, 1), cell(0.5, 0, 0.5, 1)];
+    case "4":
+      return [
+        cell(0, 0, 0.5, 0.5),
+        cell(0.5, 0, 0.5, 0.5),
+        cell(0, 0.5, 0.5, 0.5),
+        cell(0.5, 0.5, 0.5, 0.5),
+      ];
+    case "slider":
+      return [
+        { viewport: FULL, scissor: { x: 0, y: 0, width: split, height: 1 } },
+        { viewport: FULL, scissor: { x: split, y: 0, width: 1 - split, height: 1 } },
+      ];
+  }
+}
+
+/** Short label of a compare view, e.g. "Lärche, Gehobelt, Lasur (UV-Schutz) Honig, 5 Jahre" */
+export function describeVariant(
+  zone: ZoneMaterialConfig,
+  age: number,
+  catalog: MaterialCatalog
+): string {
+  const nameOf = (entries: { id: string; name: string }[], id: string) =>
+    entries.find((e) => e.id === id)?.name ?? id;
+  const colors = catalog.treatments.find((t) => t.id === zone.treatment)?.colors;
+  const color = Object.entries(colors ?? {}).find(([, hex]) => hex === zone.finishColor)?.[0];
+  return [
+    nameOf(catalog.woods, zone.woodType),
+    nameOf(catalog.surfaces, zone.surface),
+    nameOf(catalog.treatments, zone.treatment) + (color ? ` ${color}` : ""),
+    formatAge(age),
+  ].join(", ");
+}
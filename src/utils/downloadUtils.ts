@@ -0,0 +1,15 @@
+// Saves generated content (exports, reports) as a file in the browser
+export function downloadFile(
+  content: BlobPart | Blob,
+  filename: string,
+  type = "application/octet-stream"
+) {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser time to start the download before freeing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
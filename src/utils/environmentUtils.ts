@@ -0,0 +1,29 @@
+import { DataTexture } from "three";
+import { EXRLoader } from "three/examples/jsm/loaders/EXRLoader.js";
+import { RGBELoader } from "three/examples/jsm/loaders/RGBELoader.js";
+
+/**
+ * Loads an uploaded Radiance HDR or OpenEXR panorama. Rejects with a German
+ * message for other formats and unreadable files.
+ */
+export async function loadEnvironmentFile(file: File): Promise<DataTexture> {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  const loader =
+    extension === "hdr"
+      ? new RGBELoader()
+      : extension === "exr"
+        ? new EXRLoader()
+        : undefined;
+  if (!loader) {
+    throw new Error(`"${file.name}" ist keine .hdr- oder .exr-Datei`);
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    return await loader.loadAsync(url);
+  } catch {
+    throw new Error(`"${file.name}" konnte nicht gelesen werden`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
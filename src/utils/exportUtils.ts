@@ -0,0 +1,163 @@
+import { Mesh, MeshStandardMaterial, Object3D, Scene } from "three";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
+import { MaterialCatalog, MaterialConfig, ZoneConfigs } from "../config/catalog";
+import {
+  AGING_TIMELINE_YEARS,
+  FACADE_ORIENTATIONS,
+  FACADE_ZONES,
+} from "../config/constants";
+import { BOARD_ORIENTATIONS, PROFILE_TYPES } from "../config/models";
+import {
+  SCENE_CONFIG_KEY,
+  SCENE_CONFIG_VERSION,
+  SceneConfiguration,
+} from "../config/scene";
+import { materialKey } from "./materialManager";
+import { createMaterial } from "./materialUtils";
+import { isObject, Json, ValidationError, Validator } from "./validation";
+
+const CONFIG_ERROR = "Gespeicherte Konfiguration ungültig";
+
+/**
+ * Exports the configured facade as GLB with its materials and textures. The
+ * live materials age in a shader, which glTF can't carry, so every zone gets
+ * a material with the aging baked into its color and roughness. The
+ * configuration goes into the scene extras, and every mesh keeps its zone,
+ * so a re-import looks the same.
+ */
+export async function exportFacadeGlb(
+  object: Object3D,
+  config: SceneConfiguration,
+  catalog: MaterialCatalog,
+  zoneMaterial: (zoneId: string) => MaterialConfig
+): Promise<ArrayBuffer> {
+  const scene = new Scene();
+  scene.name = config.model.name;
+  scene.userData[SCENE_CONFIG_KEY] = config;
+
+  // A clone shares geometry but leaves the live scene intact
+  const materials = new Map<string, MeshStandardMaterial>();
+  const copy = object.clone();
+  copy.traverse((child) => {
+    if (child instanceof Mesh && child.userData.zone) {
+      child.userData.explicitZone = child.userData.zone;
+      const materialConfig = zoneMaterial(child.userData.zone);
+      const key = materialKey(materialConfig);
+      let material = materials.get(key);
+      if (!material) {
+        material = createMaterial(catalog, materialConfig);
+        materials.set(key, material);
+      }
+      child.material = material;
+    }
+  });
+  scene.add(copy);
+
+  try {
+    const result = await new GLTFExporter().parseAsync(scene, { binary: true });
+    return result as ArrayBuffer;
+  } finally {
+    // Textures stay, they are shared with the live materials
+    materials.forEach((material) => material.dispose());
+  }
+}
+
+/**
+ * Reads the configuration stored by exportFacadeGlb from a loaded scene.
+ * Returns undefined for files without one and throws a ValidationError for
+ * configurations that don't match the current catalog.
+ */
+export function readSceneConfiguration(
+  object: Object3D,
+  catalog: MaterialCatalog
+): SceneConfiguration | undefined {
+  const data = object.userData[SCENE_CONFIG_KEY];
+  if (data === undefined) return undefined;
+
+  const root = SCENE_CONFIG_KEY;
+  const v = new Validator();
+  if (!isObject(data)) {
+    throw new ValidationError(CONFIG_ERROR, [`${root}: erwartet ein Objekt`]);
+  }
+  if (data.version !== SCENE_CONFIG_VERSION) {
+    v.fail(`${root}.version`, `erwartet Version ${SCENE_CONFIG_VERSION}, ist ${JSON.stringify(data.version)}`);
+  }
+
+  const model = v.object(data, "model", root);
+  const rawZones = v.object(data, "zones", root);
+  const modelPath = `${root}.model`;
+  const catalogId = (
+    zone: Json,
+    key: string,
+    path: string,
+    entries: { id: string }[]
+  ) => {
+    const id = v.string(zone, key, path);
+    if (id && !entries.some((e) => e.id === id)) {
+      v.fail(`${path}.${key}`, `unbekannte Id "${id}" im Materialkatalog`);
+    }
+    return id;
+  };
+
+  const zones: ZoneConfigs = {};
+  Object.entries(rawZones).forEach(([zoneId, zone]) => {
+    const path = `${root}.zones.${zoneId}`;
+    if (!FACADE_ZONES.some((z) => z.id === zoneId)) {
+      v.fail(path, "unbekannte Zone");
+      return;
+    }
+    if (!isObject(zone)) {
+      v.fail(path, "erwartet ein Objekt");
+      return;
+    }
+    zones[zoneId] = {
+      woodType: catalogId(zone, "woodType", path, catalog.woods),
+      surface: catalogId(zone, "surface", path, catalog.surfaces),
+      treatment: catalogId(zone, "treatment", path, catalog.treatments),
+      finishColor: v.optionalString(zone, "finishColor", path),
+    };
+  });
+
+  const board = isObject(model.board) ? model.board : undefined;
+  // Generator parameters of the parametric model, in the ranges of its controls
+  const cladding = isObject(data.cladding) ? data.cladding : undefined;
+  const claddingPath = `${root}.cladding`;
+  const config: SceneConfiguration = {
+    version: SCENE_CONFIG_VERSION,
+    model: {
+      id: v.string(model, "id", modelPath),
+      name: v.string(model, "name", modelPath),
+      profileType: v.string(model, "profileType", modelPath),
+      orientation: v.oneOf(model, "orientation", modelPath, BOARD_ORIENTATIONS),
+      board: board && {
+        width: v.number(board, "width", `${modelPath}.board`, 1, 1000),
+        thickness: v.number(board, "thickness", `${modelPath}.board`, 1, 200),
+        coverWidth: v.number(board, "coverWidth", `${modelPath}.board`, 1, 1000),
+      },
+    },
+    zones,
+    age: v.number(data, "age", root, 0, AGING_TIMELINE_YEARS),
+    facadeOrientation: v.oneOf(
+      data,
+      "facadeOrientation",
+      root,
+      Object.keys(FACADE_ORIENTATIONS)
+    ),
+    overhangDepth: v.number(data, "overhangDepth", root, 0, 1.5),
+    cladding: cladding && {
+      facadeWidth: v.number(cladding, "facadeWidth", claddingPath, 0.5, 12),
+      facadeHeight: v.number(cladding, "facadeHeight", claddingPath, 0.5, 8),
+      profile: v.oneOf(cladding, "profile", claddingPath, Object.values(PROFILE_TYPES)),
+      orientation: v.oneOf(cladding, "orientation", claddingPath, BOARD_ORIENTATIONS),
+      boardWidth: v.number(cladding, "boardWidth", claddingPath, 30, 300),
+      thickness: v.number(cladding, "thickness", claddingPath, 10, 60),
+      gap: v.number(cladding, "gap", claddingPath, 0, 60),
+      battenSpacing: v.number(cladding, "battenSpacing", claddingPath, 300, 1000),
+    },
+  };
+
+  if (v.errors.length > 0) {
+    throw new ValidationError(CONFIG_ERROR, v.errors);
+  }
+  return config;
+}
@@ -0,0 +1,162 @@
+import {
+  BufferAttribute,
+  BufferGeometry,
+  Group,
+  Matrix4,
+  Mesh,
+  MeshStandardMaterial,
+  Object3D,
+} from "three";
+import { IFCCOVERING, IFCMEMBER, IFCPLATE, IfcAPI } from "web-ifc";
+import wasmUrl from "web-ifc/web-ifc.wasm?url";
+import { FACADE_ZONES } from "../config/constants";
+
+// IFC entity types that make up a facade
+const FACADE_TYPES = [IFCCOVERING, IFCPLATE, IFCMEMBER];
+
+// Properties that assign an element to a zone explicitly, by zone id or name
+const ZONE_PROPERTIES = ["Fassadenzone", "Zone", "FacadeZone"];
+
+let apiPromise: Promise<IfcAPI> | null = null;
+
+// The WASM parser is bundled with the app, so IFC files never leave the browser
+function getIfcApi(): Promise<IfcAPI> {
+  if (!apiPromise) {
+    const api = new IfcAPI();
+    apiPromise = api
+      .Init((path) => (path.endsWith(".wasm") ? wasmUrl : path), true)
+      .then(() => api);
+  }
+  return apiPromise;
+}
+
+// web-ifc wraps attribute values as { value }
+const valueOf = (attribute: unknown): string | undefined => {
+  const value = (attribute as { value?: unknown } | null)?.value;
+  return value === undefined || value === null ? undefined : String(value);
+};
+
+interface ElementInfo {
+  name: string;
+  hints: string[];
+  zone?: string;
+}
+
+async function readElementInfo(
+  api: IfcAPI,
+  modelID: number,
+  expressID: number
+): Promise<ElementInfo> {
+  const line = api.GetLine(modelID, expressID);
+  const typeName = api.GetNameFromTypeCode(api.GetLineType(modelID, expressID));
+  const name = valueOf(line.Name) ?? `#${expressID}`;
+  const hints = [
+    typeName,
+    name,
+    valueOf(line.ObjectType),
+    valueOf(line.PredefinedType),
+  ].filter((h): h is string => !!h);
+
+  // Type objects and property values often carry the element's role
+  let zone: string | undefined;
+  const types = await api.properties.getTypeProperties(modelID, expressID);
+  types.forEach((type) => {
+    const typeNameValue = valueOf(type.Name);
+    if (typeNameValue) hints.push(typeNameValue);
+  });
+  const psets = await api.properties.getPropertySets(modelID, expressID, true, true);
+  psets.forEach((pset) => {
+    (pset.HasProperties ?? []).forEach((property: Record<string, unknown>) => {
+      const propertyName = valueOf(property.Name);
+      const propertyValue = valueOf(property.NominalValue);
+      if (!propertyName || !propertyValue) return;
+      if (ZONE_PROPERTIES.includes(propertyName)) {
+        zone = FACADE_ZONES.find(
+          (z) => z.id === propertyValue || z.name === propertyValue
+        )?.id;
+      }
+      hints.push(propertyValue);
+    });
+  });
+
+  return { name: `${typeName}/${name}`, hints, zone };
+}
+
+/**
+ * Extracts the facade elements (IfcCovering, IfcPlate, IfcMember) of an IFC
+ * file as meshes. Element type, names and property values are stored as
+ * zone hints so the meshes map onto the same zones as the bundled GLBs.
+ */
+export async function loadIfcFacade(data: ArrayBuffer): Promise<Object3D> {
+  const api = await getIfcApi();
+  const modelID = api.OpenModel(new Uint8Array(data), {
+    COORDINATE_TO_ORIGIN: true,
+  });
+  if (modelID < 0) {
+    throw new Error("IFC-Datei konnte nicht geöffnet werden.");
+  }
+
+  const root = new Group();
+  const placeholder = new MeshStandardMaterial();
+  const elementIDs: number[] = [];
+  try {
+    api.StreamAllMeshesWithTypes(modelID, FACADE_TYPES, (flatMesh) => {
+      const element = new Group();
+      element.userData.expressID = flatMesh.expressID;
+      elementIDs.push(flatMesh.expressID);
+
+      for (let i = 0; i < flatMesh.geometries.size(); i++) {
+        const placed = flatMesh.geometries.get(i);
+        const ifcGeometry = api.GetGeometry(modelID, placed.geometryExpressID);
+        const vertexData = api.GetVertexArray(
+          ifcGeometry.GetVertexData(),
+          ifcGeometry.GetVertexDataSize()
+        );
+        const indexData = api.GetIndexArray(
+          ifcGeometry.GetIndexData(),
+          ifcGeometry.GetIndexDataSize()
+        );
+
+        // Interleaved position (xyz) and normal (xyz) per vertex
+        const vertexCount = vertexData.length / 6;
+        const positions = new Float32Array(vertexCount * 3);
+        const normals = new Float32Array(vertexCount * 3);
+        for (let v = 0; v < vertexCount; v++) {
+          positions.set(vertexData.subarray(v * 6, v * 6 + 3), v * 3);
+          normals.set(vertexData.subarray(v * 6 + 3, v * 6 + 6), v * 3);
+        }
+
+        const geometry = new BufferGeometry();
+        geometry.setAttribute("position", new BufferAttribute(positions, 3));
+        geometry.setAttribute("normal", new BufferAttribute(normals, 3));
+        geometry.setIndex(new BufferAttribute(new Uint32Array(indexData), 1));
+        geometry.applyMatrix4(new Matrix4().fromArray(placed.flatTransformation));
+        ifcGeometry.delete();
+
+        element.add(new Mesh(geometry, placeholder));
+      }
+      flatMesh.delete();
+      root.add(element);
+    });
+
+    // Names and zone hints are resolved after streaming, as property access
+    // is asynchronous
+    await Promise.all(
+      root.children.map(async (element, i) => {
+        const info = await readElementInfo(api, modelID, elementIDs[i]);
+        element.name = info.name;
+        element.userData.zoneHints = info.hints;
+        if (info.zone) element.userData.explicitZone = info.zone;
+      })
+    );
+  } finally {
+    api.CloseModel(modelID);
+  }
+
+  if (root.children.length === 0) {
+    throw new Error(
+      "Keine Fassadenelemente (IfcCovering, IfcPlate, IfcMember) gefunden."
+    );
+  }
+  return root;
+}
@@ -0,0 +1,167 @@
+import { Color, Object3D, PerspectiveCamera, Scene, Vector2, WebGLRenderer } from "three";
+import { MaterialCatalog, ZoneConfigs } from "../config/catalog";
+import { FACADE_ZONES } from "../config/constants";
+import { formatAge } from "./agingUtils";
+
+// Largest tile rendered at once, well below common drawing buffer limits
+const TILE_SIZE = 1024;
+
+/**
+ * Renders the scene at any resolution, independent of the window size, by
+ * drawing it tile by tile with a camera view offset. With transparent set
+ * the background is left out.
+ */
+export function renderImage(
+  gl: WebGLRenderer,
+  scene: Scene,
+  camera: PerspectiveCamera,
+  width: number,
+  height: number,
+  transparent: boolean
+): HTMLCanvasElement {
+  const output = document.createElement("canvas");
+  output.width = width;
+  output.height = height;
+  const context = output.getContext("2d");
+  if (!context) throw new Error("Kein 2D-Zeichenkontext verfügbar");
+
+  const size = gl.getSize(new Vector2());
+  const pixelRatio = gl.getPixelRatio();
+  const clearColor = gl.getClearColor(new Color());
+  const clearAlpha = gl.getClearAlpha();
+  const background = scene.background;
+  const aspect = camera.aspect;
+
+  // Editing helpers like the section gizmo stay out of the picture
+  const helpers: Object3D[] = [];
+  scene.traverse((object) => {
+    if ((object as { isTransformControls?: boolean }).isTransformControls && object.visible) {
+      helpers.push(object);
+    }
+  });
+
+  try {
+    helpers.forEach((helper) => (helper.visible = false));
+    gl.setPixelRatio(1);
+    if (transparent) {
+      scene.background = null;
+      gl.setClearColor(0x000000, 0);
+    }
+    camera.aspect = width / height;
+    for (let y = 0; y < height; y += TILE_SIZE) {
+      for (let x = 0; x < width; x += TILE_SIZE) {
+        const tileWidth = Math.min(TILE_SIZE, width - x);
+        const tileHeight = Math.min(TILE_SIZE, height - y);
+        gl.setSize(tileWidth, tileHeight, false);
+        camera.setViewOffset(width, height, x, y, tileWidth, tileHeight);
+        gl.render(scene, camera);
+        context.drawImage(gl.domElement, 0, 0, tileWidth, tileHeight, x, y, tileWidth, tileHeight);
+      }
+    }
+  } finally {
+    camera.clearViewOffset();
+    camera.aspect = aspect;
+    camera.updateProjectionMatrix();
+    gl.setPixelRatio(pixelRatio);
+    gl.setSize(size.x, size.y, false);
+    gl.setClearColor(clearColor, clearAlpha);
+    scene.background = background;
+    helpers.forEach((helper) => (helper.visible = true));
+  }
+  return output;
+}
+
+/** Caption lines naming the model, the materials of each zone and the age */
+export function describeConfiguration(
+  modelName: string,
+  zoneIds: string[],
+  zones: ZoneConfigs,
+  age: number,
+  catalog: MaterialCatalog
+): string[] {
+  const nameOf = (entries: { id: string; name: string }[], id: string) =>
+    entries.find((e) => e.id === id)?.name ?? id;
+  const lines = [modelName];
+  FACADE_ZONES.filter((zone) => zoneIds.includes(zone.id)).forEach((zone) => {
+    const config = zones[zone.id];
+    if (!config) return;
+    const colors = catalog.treatments.find((t) => t.id === config.treatment)?.colors;
+    const color =
+      config.finishColor &&
+      (Object.entries(colors ?? {}).find(([, hex]) => hex === config.finishColor)?.[0] ??
+        config.finishColor);
+    const parts = [
+      nameOf(catalog.woods, config.woodType),
+      nameOf(catalog.surfaces, config.surface),
+      nameOf(catalog.treatments, config.treatment),
+      ...(color ? [color] : []),
+    ];
+    lines.push(`${zone.name}: ${parts.join(", ")}`);
+  });
+  lines.push(`Alter: ${formatAge(age)}`);
+  return lines;
+}
+
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Bild "${url}" konnte nicht geladen werden`));
+    image.src = url;
+  });
+}
+
+/**
+ * Puts the logo in the top left corner and the caption in a band along the
+ * bottom, both scaled to the image width. A background colour fills
+ * transparent areas, e.g. for JPEG.
+ */
+export function composeImage(
+  render: HTMLCanvasElement,
+  options: { logo?: HTMLImageElement; caption: string[]; background?: string }
+): HTMLCanvasElement {
+  const output = document.createElement("canvas");
+  output.width = render.width;
+  output.height = render.height;
+  const context = output.getContext("2d");
+  if (!context) throw new Error("Kein 2D-Zeichenkontext verfügbar");
+
+  if (options.background) {
+    context.fillStyle = options.background;
+    context.fillRect(0, 0, output.width, output.height);
+  }
+  context.drawImage(render, 0, 0);
+
+  const unit = output.width / 100;
+  if (options.logo) {
+    const width = 14 * unit;
+    const height = (width * options.logo.height) / options.logo.width;
+    context.drawImage(options.logo, 2 * unit, 2 * unit, width, height);
+  }
+
+  if (options.caption.length > 0) {
+    const fontSize = Math.max(12, 1.3 * unit);
+    const lineHeight = fontSize * 1.4;
+    const padding = fontSize;
+    const bandHeight = options.caption.length * lineHeight + padding * 2;
+    context.fillStyle = "rgba(255, 255, 255, 0.85)";
+    context.fillRect(0, output.height - bandHeight, output.width, bandHeight);
+    context.fillStyle = "#222";
+    context.textBaseline = "top";
+    options.caption.forEach((line, i) => {
+      context.font = `${i === 0 ? "600 " : ""}${fontSize}px system-ui, -apple-system, sans-serif`;
+      context.fillText(line, 2 * unit, output.height - bandHeight + padding + i * lineHeight);
+    });
+  }
+  return output;
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number) {
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Bild konnte nicht erzeugt werden"))),
+      type,
+      quality
+    )
+  );
+}
@@ -0,0 +1,153 @@
+import { Box3, LoadingManager, Mesh, Object3D, Vector3 } from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader.js";
+import { MaterialCatalog } from "../config/catalog";
+import { ModelEntry } from "../config/models";
+import { SceneConfiguration } from "../config/scene";
+import { readSceneConfiguration } from "./exportUtils";
+import { ValidationError } from "./validation";
+
+export class ModelImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelImportError";
+  }
+}
+
+export interface ImportedModel {
+  entry: ModelEntry;
+  object: Object3D;
+  config?: SceneConfiguration; // Stored by a GLB export of the viewer
+  warning?: string; // The model loaded, but its stored configuration didn't
+}
+
+export const IMPORT_ACCEPT = ".glb,.gltf,.bin,.obj,.ifc,.png,.jpg,.jpeg,.webp,.ktx2";
+const MODEL_EXTENSIONS = ["glb", "gltf", "obj", "ifc"];
+
+// Anything larger than this is assumed to be modelled in millimetres
+const MAX_SIZE_METRES = 50;
+
+const extensionOf = (name: string) => name.split(".").pop()?.toLowerCase() ?? "";
+
+let importCounter = 0;
+
+async function loadGltf(main: File, files: File[]): Promise<Object3D> {
+  // A .gltf references its .bin and textures by relative path. Serve them
+  // from the dropped files and remember any that weren't dropped.
+  const urls = new Map(files.map((f) => [f.name, URL.createObjectURL(f)]));
+  const missing = new Set<string>();
+  const manager = new LoadingManager();
+  manager.setURLModifier((url) => {
+    if (url.startsWith("blob:") || url.startsWith("data:")) return url;
+    const name = decodeURIComponent(url.split("/").pop() ?? url);
+    const blobUrl = urls.get(name);
+    if (!blobUrl) missing.add(name);
+    return blobUrl ?? url;
+  });
+
+  try {
+    const gltf = await new GLTFLoader(manager).loadAsync(urls.get(main.name)!);
+    return gltf.scene;
+  } catch (error) {
+    if (missing.size > 0) {
+      throw new ModelImportError(
+        `Zu "${main.name}" fehlen Dateien: ${[...missing].join(", ")}. Bitte zusammen mit der .gltf-Datei ablegen.`
+      );
+    }
+    throw error;
+  } finally {
+    urls.forEach((url) => URL.revokeObjectURL(url));
+  }
+}
+
+async function parseModel(main: File, files: File[]): Promise<Object3D> {
+  switch (extensionOf(main.name)) {
+    case "glb": {
+      const gltf = await new GLTFLoader().parseAsync(await main.arrayBuffer(), "");
+      return gltf.scene;
+    }
+    case "gltf":
+      return loadGltf(main, files);
+    case "ifc": {
+      // The IFC parser is large, so it is only loaded when needed
+      const { loadIfcFacade } = await import("./ifcUtils");
+      return loadIfcFacade(await main.arrayBuffer());
+    }
+    default:
+      return new OBJLoader().parse(await main.text());
+  }
+}
+
+/**
+ * Loads a dropped or picked model (.glb, .gltf with sidecar files, .obj or .ifc)
+ * and wraps it in a session-only model entry. Failures are reported as
+ * ModelImportError with a message that can be shown to the user.
+ */
+export async function importModelFiles(
+  files: File[],
+  catalog: MaterialCatalog
+): Promise<ImportedModel> {
+  const models = files.filter((f) => MODEL_EXTENSIONS.includes(extensionOf(f.name)));
+  if (models.length === 0) {
+    throw new ModelImportError(
+      "Keine Modelldatei gefunden. Unterstützt werden .glb, .gltf, .obj und .ifc."
+    );
+  }
+  if (models.length > 1) {
+    throw new ModelImportError("Bitte jeweils nur ein Modell importieren.");
+  }
+  const main = models[0];
+
+  let object: Object3D;
+  try {
+    object = await parseModel(main, files);
+  } catch (error) {
+    if (error instanceof ModelImportError) throw error;
+    throw new ModelImportError(
+      `"${main.name}" konnte nicht gelesen werden: ${(error as Error).message}`
+    );
+  }
+
+  let meshCount = 0;
+  object.traverse((child) => {
+    if (child instanceof Mesh) meshCount++;
+  });
+  if (meshCount === 0) {
+    throw new ModelImportError(`"${main.name}" enthält keine Geometrie.`);
+  }
+
+  const size = new Box3().setFromObject(object).getSize(new Vector3());
+  if (Math.max(size.x, size.y, size.z) > MAX_SIZE_METRES) {
+    object.scale.setScalar(0.001);
+  }
+
+  // Exports of this viewer carry their configuration
+  let config: SceneConfiguration | undefined;
+  let warning: string | undefined;
+  try {
+    config = readSceneConfiguration(object, catalog);
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    warning = `"${main.name}" wurde mit Standardmaterial geladen. ${error.title}: ${error.errors.join("; ")}`;
+  }
+
+  importCounter++;
+  return {
+    entry: {
+      id: `import-${importCounter}`,
+      name: `${config?.model.name ?? main.name} (Import ${importCounter})`,
+      file: main.name,
+      orientation: config?.model.orientation ?? "vertical",
+      profileType: config?.model.profileType ?? "Importiertes Modell",
+      board: config?.model.board,
+      defaultMaterial: {
+        wood: catalog.defaults.wood,
+        surface: catalog.defaults.surface,
+        treatment: catalog.defaults.treatment,
+      },
+    },
+    object,
+    config,
+    warning,
+  };
+}
@@ -0,0 +1,130 @@
+import { Material, MeshStandardMaterial, Texture } from "three";
+import { MaterialCatalog, MaterialConfig } from "../config/catalog";
+import { createMaterial, MaterialOptions } from "./materialUtils";
+
+export interface MaterialStats {
+  materials: number;
+  textures: number;
+}
+
+interface CacheEntry {
+  material: MeshStandardMaterial;
+  refCount: number;
+}
+
+const TEXTURE_SLOTS = ["map", "normalMap", "roughnessMap"] as const;
+
+const texturesOf = (material: MeshStandardMaterial): Texture[] =>
+  TEXTURE_SLOTS.map((slot) => material[slot]).filter(
+    (texture): texture is Texture => !!texture
+  );
+
+export function materialKey(
+  config: MaterialConfig,
+  options: MaterialOptions = {}
+): string {
+  return JSON.stringify([
+    config.woodType,
+    config.surface,
+    config.treatment,
+    config.finishColor ?? null,
+    config.age,
+    !!options.exposureWeathering,
+  ]);
+}
+
+/**
+ * Hands out one shared material per configuration and disposes it (and
+ * textures no other material uses) once the last mesh has released it.
+ */
+export class MaterialManager {
+  private catalog: MaterialCatalog;
+  private entries = new Map<string, CacheEntry>();
+  private keys = new Map<Material, string>();
+  private listeners = new Set<(stats: MaterialStats) => void>();
+
+  constructor(catalog: MaterialCatalog) {
+    this.catalog = catalog;
+  }
+
+  acquire(
+    config: MaterialConfig,
+    options: MaterialOptions = {}
+  ): MeshStandardMaterial {
+    const key = materialKey(config, options);
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = {
+        material: createMaterial(this.catalog, config, options),
+        refCount: 0,
+      };
+      this.entries.set(key, entry);
+      this.keys.set(entry.material, key);
+    }
+    entry.refCount++;
+    this.notify();
+    return entry.material;
+  }
+
+  // Materials not created by this manager are ignored
+  release(material: Material): void {
+    const key = this.keys.get(material);
+    const entry = key !== undefined ? this.entries.get(key) : undefined;
+    if (!key || !entry) return;
+
+    entry.refCount--;
+    if (entry.refCount <= 0) {
+      this.entries.delete(key);
+      this.keys.delete(material);
+      this.disposeMaterial(entry.material);
+    }
+    this.notify();
+  }
+
+  get stats(): MaterialStats {
+    return {
+      materials: this.entries.size,
+      textures: this.liveTextures().size,
+    };
+  }
+
+  subscribe(listener: (stats: MaterialStats) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.stats);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  dispose(): void {
+    this.entries.forEach((entry) => this.disposeMaterial(entry.material));
+    this.entries.clear();
+    this.keys.clear();
+    this.notify();
+  }
+
+  private liveTextures(): Set<Texture> {
+    const textures = new Set<Texture>();
+    this.entries.forEach((entry) =>
+      texturesOf(entry.material).forEach((texture) => textures.add(texture))
+    );
+    return textures;
+  }
+
+  private disposeMaterial(material: MeshStandardMaterial) {
+    // Textures are shared through the texture cache, so only free their GPU
+    // memory when no remaining material uses them. They are re-uploaded
+    // automatically if needed again.
+    const live = this.liveTextures();
+    texturesOf(material).forEach((texture) => {
+      if (!live.has(texture)) texture.dispose();
+    });
+    material.dispose();
+  }
+
+  private notify() {
+    if (this.listeners.size === 0) return;
+    const stats = this.stats;
+    this.listeners.forEach((listener) => listener(stats));
+  }
+}
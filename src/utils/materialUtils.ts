@@ -1,128 +1,196 @@
 import {
   MeshStandardMaterial,
   Color,
+  Texture,
+  TextureLoader,
+  RepeatWrapping,
+  SRGBColorSpace,
+  Vector2,
 } from "three";
-import {
-  WOOD_TYPES,
-  SURFACE_TYPES,
-  WOOD_COLORS,
-  StringMap,
-  WoodColors,
-} from "../config/constants";
+import { MaterialCatalog, MaterialConfig } from "../config/catalog";
+import { AGING_TIMELINE_YEARS } from "../config/constants";
+import { WEATHERING_ATTRIBUTE } from "./weatheringUtils";
+import { proceduralTextures } from "./woodTextures";
+
+interface LoadedTextureSet {
+  diffuse: Texture;
+  normal: Texture;
+  roughness: Texture;
+}
+
+// Time constants of the aging curves in years
+const GREYING_YEARS = 4;
+const CHALKING_YEARS = 6;
+
+const textureLoader = new TextureLoader();
+const textureCache = new Map<string, Texture>();
+
+// Textures are shared between all materials using the same file
+function loadTexture(url: string, tileSize: number, isColor: boolean): Texture {
+  const key = `${url}@${tileSize}`;
+  let texture = textureCache.get(key);
+  if (!texture) {
+    texture = textureLoader.load(url);
+    texture.wrapS = RepeatWrapping;
+    texture.wrapT = RepeatWrapping;
+    texture.repeat.set(1 / tileSize, 1 / tileSize);
+    if (isColor) {
+      texture.colorSpace = SRGBColorSpace;
+    }
+    textureCache.set(key, texture);
+  }
+  return texture;
+}
+
+export function getTextureSet(
+  catalog: MaterialCatalog,
+  woodKey: string,
+  surfaceKey: string
+): LoadedTextureSet | null {
+  const set = catalog.textureSets[`${woodKey}_${surfaceKey}`];
+  if (!set) return null;
+
+  return {
+    diffuse: loadTexture(set.diffuse, set.tileSize, true),
+    normal: loadTexture(set.normal, set.tileSize, false),
+    roughness: loadTexture(set.roughness, set.tileSize, false),
+  };
+}
+
+export interface MaterialOptions {
+  // Scale aging by the per-vertex exposure from applyWeatheringExposure
+  // instead of greying the whole facade uniformly
+  exposureWeathering?: boolean;
+}
+
+// Lerps the fragment color towards grey by agingIntensity × vertex exposure
+function applyWeatheringShader(
+  mat: MeshStandardMaterial,
+  greyColor: Color,
+  agingIntensity: number
+) {
+  mat.onBeforeCompile = (shader) => {
+    shader.uniforms.agingIntensity = { value: agingIntensity };
+    shader.uniforms.agingColor = { value: greyColor };
+
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        "#include <common>",
+        `#include <common>
+attribute float ${WEATHERING_ATTRIBUTE};
+varying float vWeathering;`
+      )
+      .replace(
+        "#include <begin_vertex>",
+        `#include <begin_vertex>
+vWeathering = ${WEATHERING_ATTRIBUTE};`
+      );
+
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        "#include <common>",
+        `#include <common>
+uniform float agingIntensity;
+uniform vec3 agingColor;
+varying float vWeathering;`
+      )
+      .replace(
+        "#include <color_fragment>",
+        `#include <color_fragment>
+float weatheringAmount = clamp(agingIntensity * vWeathering, 0.0, 1.0);
+diffuseColor.rgb = mix(diffuseColor.rgb, agingColor, weatheringAmount);`
+      )
+      .replace(
+        "#include <roughnessmap_fragment>",
+        `#include <roughnessmap_fragment>
+roughnessFactor = min(roughnessFactor + weatheringAmount * 0.3, 1.0);`
+      );
+  };
+  mat.customProgramCacheKey = () => "weathering";
+}
 
 export function createMaterial(
-  woodType: string,
-  surface: string,
-  age: number,
-  treatment: string = "Unbehandelt",
-  finishColor?: string
+  catalog: MaterialCatalog,
+  config: MaterialConfig,
+  options: MaterialOptions = {}
 ): MeshStandardMaterial {
-  // Get the wood type key and base color
-  const woodKey = (WOOD_TYPES as StringMap)[woodType] || "spruce";
-  const baseColor = (WOOD_COLORS as WoodColors)[
-    woodKey as keyof typeof WOOD_COLORS
-  ];
+  // Unknown ids fall back to the first catalog entry
+  const wood =
+    catalog.woods.find((w) => w.id === config.woodType) ?? catalog.woods[0];
+  const surface =
+    catalog.surfaces.find((s) => s.id === config.surface) ??
+    catalog.surfaces[0];
+  const treatment =
+    catalog.treatments.find((t) => t.id === config.treatment) ??
+    catalog.treatments[0];
 
   const mat = new MeshStandardMaterial({
-    color: new Color(baseColor[0], baseColor[1], baseColor[2]),
-    roughness: 0.65,
+    color: new Color(...wood.baseColor),
+    roughness: wood.roughness,
     metalness: 0.0,
     envMapIntensity: 1.0,
   });
 
   // Apply surface effects first
-  const surfaceKey = (SURFACE_TYPES as StringMap)[surface];
-  switch (surfaceKey) {
-    case "rough": // Sägerau
-      mat.roughness = 0.9;
-      mat.metalness = 0.02;
-      mat.envMapIntensity = 0.5;
-      break;
-    case "grooved": // Gerillt
-      mat.roughness = 0.75;
-      mat.metalness = 0.05;
-      mat.envMapIntensity = 0.8;
-      break;
-    case "planed": // Geohobelt
-      mat.roughness = 0.4;
-      mat.metalness = 0.1;
-      mat.envMapIntensity = 1.2;
-      break;
-    case "smooth": // Gehobelt
-      mat.roughness = 0.55;
-      mat.metalness = 0.08;
-      mat.envMapIntensity = 1.0;
-      break;
-  }
+  mat.roughness = Math.min(Math.max(wood.roughness + surface.roughnessOffset, 0), 1);
+  mat.metalness = surface.metalness;
+  mat.envMapIntensity = surface.envMapIntensity;
 
-  // Apply treatment effects
-  switch (treatment) {
-    case "Vorvergraut":
-      const greyTint = new Color(0.75, 0.75, 0.77);
-      mat.color.lerp(greyTint, 0.7);
-      mat.roughness = Math.min(mat.roughness + 0.15, 1.0);
-      mat.metalness = Math.max(mat.metalness - 0.02, 0);
-      mat.envMapIntensity *= 0.7;
-      break;
-
-    case "Lasur (UV-Schutz)":
-      if (finishColor) {
-        const color = new Color(finishColor);
-        mat.color.lerp(color, 0.4);
-        mat.roughness = Math.max(mat.roughness - 0.1, 0);
-        mat.metalness = Math.min(mat.metalness + 0.05, 1);
-        mat.envMapIntensity *= 1.2;
-      }
-      break;
-
-    case "Deckend (Pigmentiert)":
-      if (finishColor) {
-        const color = new Color(finishColor);
-        mat.color.lerp(color, 0.85);
-        mat.roughness = Math.max(mat.roughness - 0.2, 0);
-        mat.metalness = Math.min(mat.metalness + 0.08, 1);
-        mat.envMapIntensity *= 1.3;
-      }
-      break;
-
-    case "Hydrophobiert":
-      mat.color.multiplyScalar(0.95);
-      mat.roughness = Math.max(mat.roughness - 0.15, 0);
-      mat.metalness = Math.min(mat.metalness + 0.1, 1);
-      mat.envMapIntensity *= 1.4;
-      break;
-
-    case "Thermisch behandelt":
-      const darkTint = new Color(0.3, 0.2, 0.15);
-      mat.color.lerp(darkTint, 0.6);
-      mat.roughness = Math.min(mat.roughness + 0.1, 1.0);
-      mat.metalness = Math.min(mat.metalness + 0.06, 1);
-      mat.envMapIntensity *= 0.9;
-      break;
-  }
+  // Use the texture set if one exists. The color then acts as a tint on top
+  // of the diffuse map, so treatments and aging below still apply. Other
+  // combinations get the generated grain of their surface, tinted with the
+  // wood color.
+  const textureSet = getTextureSet(catalog, wood.id, surface.id);
+  const textures = textureSet ?? proceduralTextures(surface);
+  mat.map = textures.diffuse;
+  mat.normalMap = textures.normal;
+  mat.normalScale = new Vector2(surface.normalScale, surface.normalScale);
+  mat.roughnessMap = textures.roughness;
+  if (textureSet) mat.color.setRGB(1, 1, 1);
 
-  // Apply aging effects last
-  if (age > 1) {
-    const agingFactor = Math.min((age - 1) / 9, 1);
-    const greyColor = new Color(0.7, 0.7, 0.72);
-
-    let agingIntensity = agingFactor;
-    if (treatment === "Vorvergraut") {
-      agingIntensity *= 1.2;
-    } else if (
-      treatment === "Lasur (UV-Schutz)" ||
-      treatment === "Hydrophobiert"
-    ) {
-      agingIntensity *= 0.6;
-    } else if (treatment === "Deckend (Pigmentiert)") {
-      agingIntensity *= 0.4;
+  // Apply treatment effects. Treatments with a color palette are tinted with
+  // the chosen finish color and have no effect until one is selected.
+  if (!treatment.colors || config.finishColor) {
+    const tint = treatment.colors
+      ? new Color(config.finishColor)
+      : treatment.tintColor && new Color(...treatment.tintColor);
+    if (tint) {
+      mat.color.lerp(tint, treatment.tintStrength);
     }
+    if (treatment.brightness !== undefined) {
+      mat.color.multiplyScalar(treatment.brightness);
+    }
+    mat.roughness = Math.min(Math.max(mat.roughness + treatment.roughnessOffset, 0), 1);
+    mat.metalness = Math.min(Math.max(mat.metalness + treatment.metalnessOffset, 0), 1);
+    mat.envMapIntensity *= treatment.envMapFactor;
+  }
+
+  // Apply aging effects last. Wood greys within a few years and then darkens
+  // slowly as the surface erodes; opaque paint chalks towards a pale bloom.
+  if (config.age > 0) {
+    const chalks = treatment.maintenance?.action === "repaint";
+    const agingFactor =
+      1 - Math.exp(-config.age / (chalks ? CHALKING_YEARS : GREYING_YEARS));
+    const erosion = Math.min(config.age / AGING_TIMELINE_YEARS, 1);
+    const greyColor = chalks
+      ? new Color(0.85, 0.85, 0.85)
+      : new Color(0.7, 0.7, 0.72).multiplyScalar(1 - 0.3 * erosion);
 
-    mat.color.lerp(greyColor, agingIntensity);
-    mat.roughness = Math.min(mat.roughness + agingIntensity * 0.3, 1.0);
+    const agingIntensity =
+      agingFactor *
+      (chalks ? 1 : 1 - wood.agingResistance) *
+      (1 - treatment.agingResistance);
+
+    if (options.exposureWeathering) {
+      // Greying and roughening vary per vertex, see applyWeatheringShader
+      applyWeatheringShader(mat, greyColor, agingIntensity);
+    } else {
+      mat.color.lerp(greyColor, agingIntensity);
+      mat.roughness = Math.min(mat.roughness + agingIntensity * 0.3, 1.0);
+    }
     mat.metalness = Math.max(mat.metalness - agingIntensity * 0.05, 0);
     mat.envMapIntensity *= 1 - agingIntensity * 0.3;
   }
 
   return mat;
-} 
\ No newline at end of file
+}
@@ -0,0 +1,76 @@
+import { Camera, Intersection, Mesh, Vector2, Vector3 } from "three";
+
+export type SnapKind = "vertex" | "edge" | "face";
+
+export interface SnapPoint {
+  point: Vector3;
+  kind: SnapKind;
+}
+
+export interface Measurement {
+  id: number;
+  start: Vector3;
+  end: Vector3;
+}
+
+// Pointer distance within which vertices and edge midpoints catch
+export const SNAP_RADIUS_PX = 12;
+
+const toScreen = (point: Vector3, camera: Camera, size: Vector2) => {
+  const ndc = point.clone().project(camera);
+  return new Vector2(((ndc.x + 1) / 2) * size.x, ((1 - ndc.y) / 2) * size.y);
+};
+
+// Nearest candidate on screen, if it lies within the snap radius
+const nearest = (candidates: Vector3[], target: Vector2, camera: Camera, size: Vector2) => {
+  let best: Vector3 | undefined;
+  let bestDistance = SNAP_RADIUS_PX;
+  candidates.forEach((candidate) => {
+    const distance = toScreen(candidate, camera, size).distanceTo(target);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
+
+/**
+ * Snaps a raycast hit to a corner of the hit triangle, else to the midpoint of
+ * one of its edges, else keeps the point on the face. Size is the viewport in
+ * pixels.
+ */
+export function snapToHit(hit: Intersection, camera: Camera, size: Vector2): SnapPoint {
+  const mesh = hit.object as Mesh;
+  const face = hit.face;
+  if (!face) return { point: hit.point.clone(), kind: "face" };
+
+  const position = mesh.geometry.attributes.position;
+  const corners = [face.a, face.b, face.c].map((i) =>
+    new Vector3().fromBufferAttribute(position, i).applyMatrix4(mesh.matrixWorld)
+  );
+  const target = toScreen(hit.point, camera, size);
+
+  const vertex = nearest(corners, target, camera, size);
+  if (vertex) return { point: vertex.clone(), kind: "vertex" };
+
+  // Edge k runs from corner k to k + 1. The edge opposite a right angle is
+  // the diagonal of a quad rather than a real edge and is skipped.
+  const midpoints = corners.flatMap((corner, k) => {
+    const next = corners[(k + 1) % 3];
+    const opposite = corners[(k + 2) % 3];
+    const a = corner.clone().sub(opposite).normalize();
+    const b = next.clone().sub(opposite).normalize();
+    return Math.abs(a.dot(b)) < 1e-3 ? [] : [corner.clone().lerp(next, 0.5)];
+  });
+  const midpoint = nearest(midpoints, target, camera, size);
+  if (midpoint) return { point: midpoint, kind: "edge" };
+
+  return { point: hit.point.clone(), kind: "face" };
+}
+
+/** Length in millimetres, e.g. "1'234.5 mm" */
+export function formatLength(metres: number): string {
+  const mm = (metres * 1000).toLocaleString("de-CH", { maximumFractionDigits: 1 });
+  return `${mm} mm`;
+}
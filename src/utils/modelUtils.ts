@@ -1,8 +1,160 @@
-export function loadAvailableModels(): string[] {
-  return [
-    "/facades/FVG.092.glb",
-    "/facades/FVG.073.glb",
-    "/facades/FHG.015.glb",
-    "/facades/FVG113.glb",
-  ];
-} 
\ No newline at end of file
+import { BufferAttribute, BufferGeometry, Mesh, Object3D, Vector3 } from "three";
+import { MaterialCatalog } from "../config/catalog";
+import { DEFAULT_ZONE, FACADE_ZONES } from "../config/constants";
+import {
+  BOARD_ORIENTATIONS,
+  MODEL_MANIFEST_URL,
+  MODEL_MANIFEST_VERSION,
+  ModelEntry,
+  ModelManifest,
+} from "../config/models";
+import {
+  fetchJson,
+  isObject,
+  Json,
+  ValidationError,
+  Validator,
+} from "./validation";
+
+const MANIFEST_ERROR = "Modell-Manifest ungültig";
+
+const parseModel =
+  (v: Validator, catalog: MaterialCatalog) =>
+  (entry: Json, path: string): ModelEntry => {
+    const board = v.object(entry, "board", path);
+    const material = v.object(entry, "defaultMaterial", path);
+    const materialPath = `${path}.defaultMaterial`;
+
+    // Default materials must exist in the material catalog
+    const catalogId = (key: string, entries: { id: string }[]) => {
+      const id = v.string(material, key, materialPath);
+      if (id && !entries.some((e) => e.id === id)) {
+        v.fail(`${materialPath}.${key}`, `unbekannte Id "${id}" im Materialkatalog`);
+      }
+      return id;
+    };
+    const treatment = catalogId("treatment", catalog.treatments);
+    const finishColor = v.optionalString(material, "finishColor", materialPath);
+    const colors = catalog.treatments.find((t) => t.id === treatment)?.colors;
+    if (finishColor && !Object.values(colors ?? {}).includes(finishColor)) {
+      v.fail(`${materialPath}.finishColor`, `Farbe ${finishColor} ist für "${treatment}" nicht erlaubt`);
+    }
+    const thumbnail = v.optionalString(entry, "thumbnail", path);
+    if (thumbnail && !/\.(png|jpe?g|webp|svg)$/i.test(thumbnail)) {
+      v.fail(`${path}.thumbnail`, `erwartet Bilddatei (png, jpg, webp, svg), ist "${thumbnail}"`);
+    }
+
+    return {
+      id: v.string(entry, "id", path),
+      name: v.string(entry, "name", path),
+      file: v.string(entry, "file", path),
+      orientation: v.oneOf(entry, "orientation", path, BOARD_ORIENTATIONS),
+      profileType: v.string(entry, "profileType", path),
+      board: {
+        width: v.number(board, "width", `${path}.board`, 1, 1000),
+        thickness: v.number(board, "thickness", `${path}.board`, 1, 500),
+        coverWidth: v.number(board, "coverWidth", `${path}.board`, 1, 2000),
+      },
+      defaultMaterial: {
+        wood: catalogId("wood", catalog.woods),
+        surface: catalogId("surface", catalog.surfaces),
+        treatment,
+        finishColor,
+      },
+      thumbnail,
+    };
+  };
+
+export function validateManifest(
+  data: unknown,
+  catalog: MaterialCatalog
+): ModelManifest {
+  const v = new Validator();
+  if (!isObject(data)) {
+    throw new ValidationError(MANIFEST_ERROR, ["Manifest: erwartet ein JSON-Objekt"]);
+  }
+  if (data.version !== MODEL_MANIFEST_VERSION) {
+    v.fail("version", `erwartet Version ${MODEL_MANIFEST_VERSION}, ist ${JSON.stringify(data.version)}`);
+  }
+
+  const models = v.list(data, "models", parseModel(v, catalog));
+  if (v.errors.length > 0) {
+    throw new ValidationError(MANIFEST_ERROR, v.errors);
+  }
+  return { version: MODEL_MANIFEST_VERSION, models };
+}
+
+export async function loadModelManifest(
+  catalog: MaterialCatalog,
+  url: string = MODEL_MANIFEST_URL
+): Promise<ModelManifest> {
+  return validateManifest(await fetchJson(url, MANIFEST_ERROR), catalog);
+}
+
+// The facade GLBs are exported without texture coordinates. Generate box
+// projected UVs in metres so texture sets tile at their real-world size.
+export function ensureBoxUVs(geometry: BufferGeometry): void {
+  if (geometry.attributes.uv) return;
+
+  const position = geometry.attributes.position;
+  if (!position) return;
+  if (!geometry.attributes.normal) {
+    geometry.computeVertexNormals();
+  }
+  const normal = geometry.attributes.normal;
+
+  const uvs = new Float32Array(position.count * 2);
+  const p = new Vector3();
+  const n = new Vector3();
+
+  for (let i = 0; i < position.count; i++) {
+    p.fromBufferAttribute(position, i);
+    n.fromBufferAttribute(normal, i);
+    const ax = Math.abs(n.x);
+    const ay = Math.abs(n.y);
+    const az = Math.abs(n.z);
+
+    // Project onto the plane the vertex normal faces most
+    if (ax >= ay && ax >= az) {
+      uvs[i * 2] = p.z;
+      uvs[i * 2 + 1] = p.y;
+    } else if (ay >= az) {
+      uvs[i * 2] = p.x;
+      uvs[i * 2 + 1] = p.z;
+    } else {
+      uvs[i * 2] = p.x;
+      uvs[i * 2 + 1] = p.y;
+    }
+  }
+
+  geometry.setAttribute("uv", new BufferAttribute(uvs, 2));
+}
+
+// Looks at the names of the object, its ancestors and its material, plus
+// zone hints set by importers (e.g. IFC types and property values)
+function namesOf(object: Object3D): string[] {
+  const names: string[] = [];
+  for (let o: Object3D | null = object; o; o = o.parent) {
+    names.push(o.name);
+    if (typeof o.userData.name === "string") names.push(o.userData.name);
+    if (Array.isArray(o.userData.zoneHints)) names.push(...o.userData.zoneHints);
+  }
+  if (object instanceof Mesh) {
+    const materials = Array.isArray(object.material)
+      ? object.material
+      : [object.material];
+    materials.forEach((m) => m?.name && names.push(m.name));
+  }
+  return names;
+}
+
+export function detectZone(object: Object3D): string {
+  // An explicit assignment, e.g. from an IFC property set, wins
+  for (let o: Object3D | null = object; o; o = o.parent) {
+    if (typeof o.userData.explicitZone === "string") return o.userData.explicitZone;
+  }
+
+  const names = namesOf(object).filter(Boolean);
+  const zone = FACADE_ZONES.find((z) => names.some((n) => z.pattern.test(n)));
+  return zone?.id ?? DEFAULT_ZONE;
+}
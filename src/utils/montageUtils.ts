@@ -0,0 +1,147 @@
+import { Matrix3, Matrix4, Quaternion, Vector2, Vector3 } from "three";
+
+// Wall rectangle in the scene that the marked photo corners show. It lies in
+// the XY plane, facing +Z like the facade models.
+export interface MontageWall {
+  origin: Vector3; // Bottom left corner
+  width: number;
+  height: number;
+}
+
+export interface MontageSolution {
+  position: Vector3;
+  quaternion: Quaternion;
+  focal: number; // In photo pixels
+}
+
+// Marking order of the wall corners in the photo
+export const MONTAGE_CORNERS = ["unten links", "unten rechts", "oben rechts", "oben links"];
+
+/**
+ * Part of the photo shown when it covers a viewport of the given aspect ratio,
+ * as texture repeat and offset.
+ */
+export function coverTransform(viewportAspect: number, photoAspect: number) {
+  const repeat = new Vector2(1, 1);
+  if (viewportAspect > photoAspect) repeat.y = photoAspect / viewportAspect;
+  else repeat.x = viewportAspect / photoAspect;
+  const offset = new Vector2((1 - repeat.x) / 2, (1 - repeat.y) / 2);
+  return { repeat, offset };
+}
+
+// Solves A x = b by Gaussian elimination with partial pivoting
+function solveLinear(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+}
+
+/** Homography mapping four source points onto four target points */
+export function solveHomography(source: Vector2[], target: Vector2[]): Matrix3 | null {
+  const a: number[][] = [];
+  const b: number[] = [];
+  source.forEach((s, i) => {
+    const t = target[i];
+    a.push([s.x, s.y, 1, 0, 0, 0, -t.x * s.x, -t.x * s.y]);
+    b.push(t.x);
+    a.push([0, 0, 0, s.x, s.y, 1, -t.y * s.x, -t.y * s.y]);
+    b.push(t.y);
+  });
+  const h = solveLinear(a, b);
+  if (!h) return null;
+  return new Matrix3().set(h[0], h[1], h[2], h[3], h[4], h[5], h[6], h[7], 1);
+}
+
+/**
+ * Camera pose and focal length that show the wall at the marked corners
+ * (photo pixels, y down, in MONTAGE_CORNERS order). Assumes square pixels and
+ * the principal point in the photo centre. When the wall is seen head-on the
+ * focal length can't be determined and fallbackFocal is used.
+ */
+export function solveMontageCamera(
+  corners: Vector2[],
+  photoSize: Vector2,
+  wall: MontageWall,
+  fallbackFocal: number
+): MontageSolution | null {
+  if (corners.length !== 4) return null;
+
+  // Image coordinates relative to the centre, y up
+  const image = corners.map(
+    (p) => new Vector2(p.x - photoSize.x / 2, photoSize.y / 2 - p.y)
+  );
+  const plane = [
+    new Vector2(0, 0),
+    new Vector2(wall.width, 0),
+    new Vector2(wall.width, wall.height),
+    new Vector2(0, wall.height),
+  ];
+  const homography = solveHomography(plane, image);
+  if (!homography) return null;
+
+  const e = homography.elements; // Column-major
+  const h1 = new Vector3(e[0], e[1], e[2]);
+  const h2 = new Vector3(e[3], e[4], e[5]);
+  const h3 = new Vector3(e[6], e[7], e[8]);
+
+  // The wall axes are perpendicular and equally long after removing K = diag(f, f, 1)
+  const candidates = [
+    -(h1.x * h2.x + h1.y * h2.y) / (h1.z * h2.z),
+    -(h1.x * h1.x + h1.y * h1.y - h2.x * h2.x - h2.y * h2.y) /
+      (h1.z * h1.z - h2.z * h2.z),
+  ].filter((f2) => Number.isFinite(f2) && f2 > 0);
+  const perspective = Math.max(Math.abs(h1.z), Math.abs(h2.z)) * Math.max(wall.width, wall.height);
+  const focal =
+    candidates.length > 0 && perspective > 1e-3
+      ? Math.sqrt(candidates.reduce((sum, f2) => sum + f2, 0) / candidates.length)
+      : fallbackFocal;
+
+  // Columns of [r1 r2 t] in a camera frame with x right, y up and z forward
+  const unproject = (h: Vector3) => new Vector3(h.x / focal, h.y / focal, h.z);
+  const k1 = unproject(h1);
+  const k2 = unproject(h2);
+  let scale = 1 / Math.sqrt(k1.length() * k2.length());
+  const t = unproject(h3).multiplyScalar(scale);
+  if (t.z < 0) {
+    scale = -scale;
+    t.negate();
+  }
+  const r1 = k1.multiplyScalar(scale).normalize();
+  const r2 = k2.multiplyScalar(scale);
+  r2.addScaledVector(r1, -r1.dot(r2)).normalize();
+
+  // Back to three's camera frame, which looks along -z; this also flips the
+  // handedness, so the third axis is r2 × r1 rather than r1 × r2
+  const flip = (v: Vector3) => new Vector3(v.x, v.y, -v.z);
+  const a = flip(r1);
+  const b = flip(r2);
+  const c = flip(r2.clone().cross(r1));
+  const translation = flip(t);
+
+  // World to camera rotation has the images of the world axes as columns
+  const worldToCamera = new Matrix4().makeBasis(a, b, c);
+  const cameraToWorld = worldToCamera.clone().transpose();
+  const position = translation
+    .clone()
+    .negate()
+    .applyMatrix4(cameraToWorld)
+    .add(wall.origin);
+  return {
+    position,
+    quaternion: new Quaternion().setFromRotationMatrix(cameraToWorld),
+    focal,
+  };
+}
@@ -0,0 +1,192 @@
+import { isObject, Json, ValidationError, Validator } from "./validation";
+
+// Projects stay in the browser's IndexedDB, one record per project with its
+// variants, so images are stored as blobs without size limits of localStorage
+const DB_NAME = "fassaden-viewer";
+const DB_VERSION = 1;
+const STORE = "projects";
+
+// Exported project files carry this marker and version
+export const PROJECT_FILE_FORMAT = "fassaden-viewer-projekt";
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_ACCEPT = ".json,application/json";
+
+const FILE_ERROR = "Projektdatei ungültig";
+
+// Preview image of a variant in pixels
+export const THUMBNAIL_SIZE: [number, number] = [320, 200];
+
+export interface ProjectVariant {
+  id: string;
+  name: string;
+  query: string; // Configuration and camera, as in a shared link
+  modelName: string;
+  background?: Blob; // Uploaded background image
+  thumbnail: Blob;
+  savedAt: string; // ISO date
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  variants: ProjectVariant[];
+  updatedAt: string; // ISO date
+}
+
+export const newProjectId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+let database: Promise<IDBDatabase> | undefined;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    if (!window.indexedDB) {
+      reject(new Error("Der Browser unterstützt keine lokale Projektablage (IndexedDB)"));
+      return;
+    }
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // A failed open may succeed later, e.g. after the user allowed storage
+  database.catch(() => (database = undefined));
+  return database;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/** All saved projects, the most recently changed first */
+export async function loadProjects(): Promise<Project[]> {
+  const projects = await withStore<Project[]>("readonly", (store) => store.getAll());
+  return projects.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/** Adds or replaces a project with its variants */
+export async function saveProject(project: Project): Promise<void> {
+  await withStore("readwrite", (store) => store.put(project));
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const dataUrlToBlob = async (url: string) => (await fetch(url)).blob();
+
+/**
+ * A project as a single JSON file, with thumbnails and background images
+ * embedded as data URLs, so it can move to another browser.
+ */
+export async function exportProject(project: Project): Promise<string> {
+  const variants = await Promise.all(
+    project.variants.map(async (variant) => ({
+      name: variant.name,
+      query: variant.query,
+      modelName: variant.modelName,
+      savedAt: variant.savedAt,
+      thumbnail: await blobToDataUrl(variant.thumbnail),
+      background: variant.background && (await blobToDataUrl(variant.background)),
+    }))
+  );
+  return JSON.stringify(
+    {
+      format: PROJECT_FILE_FORMAT,
+      version: PROJECT_FILE_VERSION,
+      name: project.name,
+      variants,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Reads a project exported by exportProject. It gets new ids, so importing
+ * the same file twice keeps both copies. The configurations are checked
+ * when a variant is loaded, like a shared link.
+ */
+export async function importProject(file: File): Promise<Project> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch (error) {
+    throw new ValidationError(FILE_ERROR, [
+      `${file.name}: kein gültiges JSON (${(error as Error).message})`,
+    ]);
+  }
+  if (!isObject(data) || data.format !== PROJECT_FILE_FORMAT) {
+    throw new ValidationError(FILE_ERROR, [`${file.name}: keine Projektdatei des Fassaden-Viewers`]);
+  }
+
+  const root = file.name;
+  const v = new Validator();
+  if (data.version !== PROJECT_FILE_VERSION) {
+    v.fail(`${root}.version`, `erwartet Version ${PROJECT_FILE_VERSION}, ist ${JSON.stringify(data.version)}`);
+  }
+  const name = v.string(data, "name", root);
+  const image = (variant: Json, key: string, path: string) => {
+    const url = variant[key];
+    if (typeof url !== "string" || !url.startsWith("data:image/")) {
+      v.fail(`${path}.${key}`, "erwartet ein Bild als Data-URL");
+      return undefined;
+    }
+    return url;
+  };
+  if (!Array.isArray(data.variants)) v.fail(`${root}.variants`, "erwartet eine Liste");
+  const variants: (Omit<ProjectVariant, "id" | "thumbnail" | "background"> & {
+    thumbnail?: string;
+    background?: string;
+  })[] = [];
+  (Array.isArray(data.variants) ? data.variants : []).forEach((variant, i) => {
+    const path = `${root}.variants[${i}]`;
+    if (!isObject(variant)) {
+      v.fail(path, "erwartet ein Objekt");
+      return;
+    }
+    variants.push({
+      name: v.string(variant, "name", path),
+      query: v.string(variant, "query", path),
+      modelName: v.string(variant, "modelName", path),
+      savedAt: v.string(variant, "savedAt", path),
+      thumbnail: image(variant, "thumbnail", path),
+      background: variant.background === undefined ? undefined : image(variant, "background", path),
+    });
+  });
+  if (v.errors.length > 0) throw new ValidationError(FILE_ERROR, v.errors);
+
+  return {
+    id: newProjectId(),
+    name,
+    updatedAt: new Date().toISOString(),
+    variants: await Promise.all(
+      variants.map(async ({ thumbnail = "", background, ...variant }) => ({
+        ...variant,
+        id: newProjectId(),
+        thumbnail: await dataUrlToBlob(thumbnail),
+        background: background ? await dataUrlToBlob(background) : undefined,
+      }))
+    ),
+  };
+}
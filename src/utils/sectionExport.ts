@@ -0,0 +1,312 @@
+import { Box2, Vector2 } from "three";
+import { SectionContour } from "./sectionUtils";
+
+// Layers of the exported drawing and their DXF colour numbers
+const LAYERS = {
+  PROFIL: 7,
+  LATTUNG: 8,
+  BEMASSUNG: 1,
+  SCHRIFTFELD: 7,
+};
+type Layer = keyof typeof LAYERS;
+
+interface DrawingPolyline {
+  points: Vector2[];
+  closed: boolean;
+  layer: Layer;
+}
+
+interface DrawingLine {
+  from: Vector2;
+  to: Vector2;
+  layer: Layer;
+}
+
+interface DrawingText {
+  at: Vector2;
+  text: string;
+  height: number;
+  layer: Layer;
+  align: "left" | "center";
+  rotation: number; // Degrees, counter-clockwise
+}
+
+// A 2D drawing in millimetres, y up
+interface Drawing {
+  polylines: DrawingPolyline[];
+  lines: DrawingLine[];
+  texts: DrawingText[];
+}
+
+export interface SectionDrawingInfo {
+  modelName: string;
+  cutPosition: string; // e.g. "Horizontal (Y), 0.500 m"
+}
+
+const MM = 1000;
+
+const boundsOf = (points: Vector2[]) => new Box2().setFromPoints(points);
+
+const formatMm = (value: number) => `${Math.round(value * 10) / 10}`;
+
+/**
+ * Lays out the section at true scale with dimension lines for board width,
+ * thickness, gap and overall depth, and a title block below it.
+ */
+function buildDrawing(contours: SectionContour[], info: SectionDrawingInfo): Drawing {
+  const drawing: Drawing = { polylines: [], lines: [], texts: [] };
+  const profiles = contours.map((contour) => ({
+    zone: contour.zone,
+    points: contour.points.map((p) => p.clone().multiplyScalar(MM)),
+    closed: contour.closed,
+  }));
+  profiles.forEach((profile) =>
+    drawing.polylines.push({
+      points: profile.points,
+      closed: profile.closed,
+      layer: profile.zone === "battens" ? "LATTUNG" : "PROFIL",
+    })
+  );
+
+  const all = boundsOf(profiles.flatMap((p) => p.points));
+  const size = all.getSize(new Vector2());
+  const textHeight = Math.min(20, Math.max(2.5, Math.max(size.x, size.y) / 80));
+  const spacing = textHeight * 3;
+
+  // Dimension with end ticks and the measured length as text
+  const dimension = (from: Vector2, to: Vector2, offset: Vector2) => {
+    const a = from.clone().add(offset);
+    const b = to.clone().add(offset);
+    const direction = b.clone().sub(a).normalize();
+    const normal = offset.clone().normalize();
+    drawing.lines.push({ from: a, to: b, layer: "BEMASSUNG" });
+    // Extension lines from the geometry and 45° ticks
+    [
+      [from, a],
+      [to, b],
+    ].forEach(([start, end]) => {
+      drawing.lines.push({
+        from: start.clone().addScaledVector(normal, textHeight / 2),
+        to: end.clone().addScaledVector(normal, textHeight / 2),
+        layer: "BEMASSUNG",
+      });
+      const tick = direction
+        .clone()
+        .add(normal)
+        .multiplyScalar(textHeight / 2);
+      drawing.lines.push({
+        from: end.clone().sub(tick),
+        to: end.clone().add(tick),
+        layer: "BEMASSUNG",
+      });
+    });
+    const angle = (Math.atan2(direction.y, direction.x) * 180) / Math.PI;
+    drawing.texts.push({
+      at: a.clone().add(b).multiplyScalar(0.5).addScaledVector(normal, textHeight * 0.4),
+      text: formatMm(from.distanceTo(to)),
+      height: textHeight,
+      layer: "BEMASSUNG",
+      align: "center",
+      rotation: angle > 90 || angle < -90 ? angle + 180 : angle,
+    });
+  };
+
+  // Boards ordered along the section; the first one and the joint after it
+  // are dimensioned, as all boards of a profile are alike
+  const boards = profiles
+    .filter((p) => p.zone !== "battens" && p.closed)
+    .map((p) => boundsOf(p.points))
+    .sort((a, b) => a.min.x - b.min.x);
+  if (boards.length > 0) {
+    const first = boards[0];
+    const above = new Vector2(0, all.max.y - first.max.y + spacing);
+    dimension(
+      new Vector2(first.min.x, first.max.y),
+      new Vector2(first.max.x, first.max.y),
+      above
+    );
+    const next = boards.find((b) => b.min.x > first.max.x);
+    if (next) {
+      dimension(
+        new Vector2(first.max.x, first.max.y),
+        new Vector2(next.min.x, first.max.y),
+        above.clone().add(new Vector2(0, spacing))
+      );
+    }
+    dimension(
+      new Vector2(first.min.x, first.max.y),
+      new Vector2(first.min.x, first.min.y),
+      new Vector2(all.min.x - first.min.x - spacing, 0)
+    );
+  }
+  dimension(
+    new Vector2(all.max.x, all.max.y),
+    new Vector2(all.max.x, all.min.y),
+    new Vector2(spacing, 0)
+  );
+
+  // Title block below the drawing
+  const blockWidth = Math.max(size.x, textHeight * 40);
+  const rowHeight = textHeight * 2;
+  const top = all.min.y - spacing * 2;
+  const left = all.min.x;
+  const rows = [
+    info.modelName,
+    `Schnitt: ${info.cutPosition}`,
+    `Massstab 1:1, Masse in mm · ${new Date().toLocaleDateString("de-CH")}`,
+  ];
+  const corners = [
+    new Vector2(left, top),
+    new Vector2(left + blockWidth, top),
+    new Vector2(left + blockWidth, top - rowHeight * rows.length),
+    new Vector2(left, top - rowHeight * rows.length),
+  ];
+  drawing.polylines.push({ points: corners, closed: true, layer: "SCHRIFTFELD" });
+  rows.forEach((text, i) => {
+    if (i > 0) {
+      drawing.lines.push({
+        from: new Vector2(left, top - rowHeight * i),
+        to: new Vector2(left + blockWidth, top - rowHeight * i),
+        layer: "SCHRIFTFELD",
+      });
+    }
+    drawing.texts.push({
+      at: new Vector2(left + textHeight, top - rowHeight * (i + 1) + textHeight * 0.5),
+      text,
+      height: i === 0 ? textHeight * 1.2 : textHeight,
+      layer: "SCHRIFTFELD",
+      align: "left",
+      rotation: 0,
+    });
+  });
+
+  return drawing;
+}
+
+const drawingBounds = (drawing: Drawing) => {
+  const box = boundsOf([
+    ...drawing.polylines.flatMap((p) => p.points),
+    ...drawing.lines.flatMap((l) => [l.from, l.to]),
+  ]);
+  // Room for dimension texts at the edges
+  const margin = Math.max(...drawing.texts.map((t) => t.height), 0) * 2;
+  return box.expandByScalar(margin);
+};
+
+// DXF R12: group code and value on alternating lines
+function toDxf(drawing: Drawing): string {
+  const out: (string | number)[] = [];
+  const add = (...pairs: (string | number)[]) => out.push(...pairs);
+  const coord = (value: number) => value.toFixed(4);
+  const bounds = drawingBounds(drawing);
+
+  add(0, "SECTION", 2, "HEADER");
+  add(9, "$ACADVER", 1, "AC1009");
+  add(9, "$DWGCODEPAGE", 3, "ANSI_1252");
+  add(9, "$EXTMIN", 10, coord(bounds.min.x), 20, coord(bounds.min.y));
+  add(9, "$EXTMAX", 10, coord(bounds.max.x), 20, coord(bounds.max.y));
+  add(0, "ENDSEC");
+
+  add(0, "SECTION", 2, "TABLES");
+  add(0, "TABLE", 2, "LTYPE", 70, 1);
+  add(0, "LTYPE", 2, "CONTINUOUS", 70, 0, 3, "Solid line", 72, 65, 73, 0, 40, "0.0");
+  add(0, "ENDTAB");
+  add(0, "TABLE", 2, "LAYER", 70, Object.keys(LAYERS).length);
+  Object.entries(LAYERS).forEach(([name, color]) =>
+    add(0, "LAYER", 2, name, 70, 0, 62, color, 6, "CONTINUOUS")
+  );
+  add(0, "ENDTAB");
+  add(0, "ENDSEC");
+
+  add(0, "SECTION", 2, "ENTITIES");
+  drawing.polylines.forEach((polyline) => {
+    // R12 readers expect the (unused) location point of the polyline
+    add(0, "POLYLINE", 8, polyline.layer, 66, 1, 10, "0.0", 20, "0.0", 30, "0.0");
+    add(70, polyline.closed ? 1 : 0);
+    polyline.points.forEach((p) =>
+      add(0, "VERTEX", 8, polyline.layer, 10, coord(p.x), 20, coord(p.y))
+    );
+    add(0, "SEQEND", 8, polyline.layer);
+  });
+  drawing.lines.forEach((line) =>
+    add(
+      0, "LINE", 8, line.layer,
+      10, coord(line.from.x), 20, coord(line.from.y),
+      11, coord(line.to.x), 21, coord(line.to.y)
+    )
+  );
+  drawing.texts.forEach((text) => {
+    add(0, "TEXT", 8, text.layer, 10, coord(text.at.x), 20, coord(text.at.y));
+    add(40, coord(text.height), 1, text.text, 50, coord(text.rotation));
+    // Centred text is placed by its alignment point
+    if (text.align === "center") {
+      add(72, 1, 11, coord(text.at.x), 21, coord(text.at.y));
+    }
+  });
+  add(0, "ENDSEC", 0, "EOF");
+  return out.join("\r\n") + "\r\n";
+}
+
+// R12 files are read in the code page of the header, not as UTF-8. Latin-1
+// matches Windows-1252 for the umlauts; anything else becomes "?".
+function encodeAnsi(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[i] = code < 0x80 || (code >= 0xa0 && code <= 0xff) ? code : 0x3f;
+  }
+  return bytes;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Standalone SVG where one user unit is one millimetre on paper
+function toSvg(drawing: Drawing): string {
+  const bounds = drawingBounds(drawing);
+  const width = bounds.max.x - bounds.min.x;
+  const height = bounds.max.y - bounds.min.y;
+  const x = (value: number) => (value - bounds.min.x).toFixed(3);
+  const y = (value: number) => (bounds.max.y - value).toFixed(3);
+  const stroke = (layer: Layer) => (layer === "BEMASSUNG" ? "#dc2626" : "#000");
+  const strokeWidth = Math.max(0.18, Math.min(width, height) / 1000).toFixed(2);
+
+  const polylines = drawing.polylines.map((polyline) => {
+    const d =
+      polyline.points
+        .map((p, i) => `${i === 0 ? "M" : "L"} ${x(p.x)} ${y(p.y)}`)
+        .join(" ") + (polyline.closed ? " Z" : "");
+    const fill =
+      polyline.closed && polyline.layer === "PROFIL"
+        ? "#f5e6cc"
+        : polyline.closed && polyline.layer === "LATTUNG"
+          ? "#e5e5e5"
+          : "none";
+    return `<path d="${d}" fill="${fill}" fill-rule="evenodd" stroke="${stroke(polyline.layer)}" stroke-width="${strokeWidth}"/>`;
+  });
+  const lines = drawing.lines.map(
+    (line) =>
+      `<line x1="${x(line.from.x)}" y1="${y(line.from.y)}" x2="${x(line.to.x)}" y2="${y(line.to.y)}" stroke="${stroke(line.layer)}" stroke-width="${strokeWidth}"/>`
+  );
+  const texts = drawing.texts.map(
+    (text) =>
+      `<text x="${x(text.at.x)}" y="${y(text.at.y)}" font-size="${text.height.toFixed(2)}" text-anchor="${text.align === "center" ? "middle" : "start"}" fill="${stroke(text.layer)}" transform="rotate(${(-text.rotation).toFixed(2)} ${x(text.at.x)} ${y(text.at.y)})">${escapeXml(text.text)}</text>`
+  );
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width.toFixed(3)}mm" height="${height.toFixed(3)}mm" viewBox="0 0 ${width.toFixed(3)} ${height.toFixed(3)}" font-family="Arial, Helvetica, sans-serif">`,
+    ...polylines,
+    ...lines,
+    ...texts,
+    `</svg>`,
+  ].join("\n");
+}
+
+export function sectionToDxf(contours: SectionContour[], info: SectionDrawingInfo) {
+  return encodeAnsi(toDxf(buildDrawing(contours, info)));
+}
+
+export function sectionToSvg(contours: SectionContour[], info: SectionDrawingInfo) {
+  return toSvg(buildDrawing(contours, info));
+}
@@ -0,0 +1,178 @@
+import { Mesh, Object3D, Plane, Vector2, Vector3 } from "three";
+
+// A cut through one facade element, in section coordinates (metres)
+export interface SectionContour {
+  points: Vector2[];
+  closed: boolean;
+  zone: string;
+  name: string;
+}
+
+// In-plane axes of a section as seen from the clipped side: vertical cuts
+// keep world up as v, horizontal cuts keep world x as u
+export function sectionBasis(plane: Plane): { u: Vector3; v: Vector3 } {
+  const n = plane.normal;
+  const project = (axis: Vector3) =>
+    axis.clone().addScaledVector(n, -axis.dot(n)).normalize();
+  if (Math.abs(n.y) < 0.9) {
+    const v = project(new Vector3(0, 1, 0));
+    return { u: v.clone().cross(n.clone().negate()), v };
+  }
+  const u = project(new Vector3(1, 0, 0));
+  return { u, v: u.clone().cross(n) };
+}
+
+// Meshes of the displayed facade; helpers like the background are skipped
+export function facadeMeshes(root: Object3D): Mesh[] {
+  const meshes: Mesh[] = [];
+  root.traverse((child) => {
+    if (child instanceof Mesh && child.userData.zone !== undefined && child.visible) {
+      meshes.push(child);
+    }
+  });
+  return meshes;
+}
+
+// Positions are matched at 0.01 mm, so duplicated vertices of flat-shaded
+// meshes join up
+const pointKey = (p: Vector3) =>
+  `${Math.round(p.x * 1e5)},${Math.round(p.y * 1e5)},${Math.round(p.z * 1e5)}`;
+
+interface Segment {
+  keys: [string, string];
+  points: [Vector3, Vector3];
+}
+
+function sliceMesh(mesh: Mesh, plane: Plane): Segment[] {
+  const position = mesh.geometry.attributes.position;
+  const index = mesh.geometry.index;
+  const count = index ? index.count : position.count;
+  const corners = [new Vector3(), new Vector3(), new Vector3()];
+  const keys: string[] = ["", "", ""];
+  const distances = [0, 0, 0];
+  const segments: Segment[] = [];
+
+  for (let i = 0; i < count; i += 3) {
+    for (let k = 0; k < 3; k++) {
+      const vertex = index ? index.getX(i + k) : i + k;
+      corners[k].fromBufferAttribute(position, vertex).applyMatrix4(mesh.matrixWorld);
+      keys[k] = pointKey(corners[k]);
+      distances[k] = plane.distanceToPoint(corners[k]);
+    }
+
+    // Vertices on the plane count as below it, so every crossing is found
+    // exactly once per edge
+    const hits: { key: string; point: Vector3 }[] = [];
+    for (let k = 0; k < 3; k++) {
+      const j = (k + 1) % 3;
+      if (distances[k] > 0 === distances[j] > 0) continue;
+
+      // Interpolate from the lexically smaller end, so both triangles that
+      // share the edge compute the same point
+      const [a, b] = keys[k] < keys[j] ? [k, j] : [j, k];
+      const t = distances[a] / (distances[a] - distances[b]);
+      // A vertex on the plane is shared by all triangles around it
+      const onPlane = [a, b].find((c) => distances[c] === 0);
+      hits.push({
+        key: onPlane === undefined ? `${keys[a]}|${keys[b]}` : keys[onPlane],
+        point: corners[a].clone().lerp(corners[b], t),
+      });
+    }
+    if (hits.length === 2 && hits[0].key !== hits[1].key) {
+      segments.push({
+        keys: [hits[0].key, hits[1].key],
+        points: [hits[0].point, hits[1].point],
+      });
+    }
+  }
+  return segments;
+}
+
+// Joins segments that share an end point into polylines
+function chainSegments(segments: Segment[]): { points: Vector3[]; closed: boolean }[] {
+  const byKey = new Map<string, number[]>();
+  segments.forEach((segment, i) =>
+    segment.keys.forEach((key) => byKey.set(key, [...(byKey.get(key) ?? []), i]))
+  );
+  const used = new Array(segments.length).fill(false);
+
+  // Follows unused segments from a point and returns the points passed
+  const walk = (startKey: string) => {
+    const keys: string[] = [];
+    const points: Vector3[] = [];
+    let key = startKey;
+    for (;;) {
+      const next = (byKey.get(key) ?? []).find((i) => !used[i]);
+      if (next === undefined) break;
+      used[next] = true;
+      const segment = segments[next];
+      const end = segment.keys[0] === key ? 1 : 0;
+      key = segment.keys[end];
+      keys.push(key);
+      points.push(segment.points[end]);
+    }
+    return { keys, points };
+  };
+
+  const loops: { points: Vector3[]; closed: boolean }[] = [];
+  segments.forEach((segment, i) => {
+    if (used[i]) return;
+    used[i] = true;
+    const forward = walk(segment.keys[1]);
+    const closed = forward.keys[forward.keys.length - 1] === segment.keys[0];
+    if (closed) {
+      loops.push({ points: [segment.points[1], ...forward.points], closed });
+      return;
+    }
+    // Open chain, e.g. a mesh with holes: extend backwards as well
+    const backward = walk(segment.keys[0]);
+    loops.push({
+      points: [
+        ...backward.points.reverse(),
+        segment.points[0],
+        segment.points[1],
+        ...forward.points,
+      ],
+      closed: false,
+    });
+  });
+  return loops;
+}
+
+// Drops points on straight runs; every triangle edge crossed adds one
+function removeCollinear(points: Vector2[], closed: boolean): Vector2[] {
+  const result = points.filter((point, i) => {
+    if (!closed && (i === 0 || i === points.length - 1)) return true;
+    const prev = points[(i - 1 + points.length) % points.length];
+    const next = points[(i + 1) % points.length];
+    const a = point.clone().sub(prev);
+    const b = next.clone().sub(point);
+    // Sine of the turn angle below ~0.06°
+    return Math.abs(a.cross(b)) > 1e-3 * a.length() * b.length();
+  });
+  return result.length >= 2 ? result : points;
+}
+
+/**
+ * Cuts the meshes with a plane and returns one polyline per profile loop,
+ * e.g. one per board, in the 2D coordinates of sectionBasis.
+ */
+export function sliceMeshes(meshes: Mesh[], plane: Plane): SectionContour[] {
+  const { u, v } = sectionBasis(plane);
+  const contours: SectionContour[] = [];
+  meshes.forEach((mesh) => {
+    mesh.updateWorldMatrix(true, false);
+    chainSegments(sliceMesh(mesh, plane)).forEach((loop) => {
+      contours.push({
+        points: removeCollinear(
+          loop.points.map((p) => new Vector2(p.dot(u), p.dot(v))),
+          loop.closed
+        ),
+        closed: loop.closed,
+        zone: mesh.userData.zone,
+        name: mesh.name,
+      });
+    });
+  });
+  return contours;
+}
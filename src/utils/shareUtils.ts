@@ -0,0 +1,339 @@
+import { Vector3 } from "three";
+import { MaterialCatalog, ZoneConfigs } from "../config/catalog";
+import {
+  AGING_TIMELINE_YEARS,
+  FACADE_ORIENTATIONS,
+  FACADE_ZONES,
+  SECTION_AXES,
+} from "../config/constants";
+import { ENVIRONMENT_PRESETS } from "../config/environments";
+import {
+  BOARD_ORIENTATIONS,
+  BuildingParameters,
+  CladdingParameters,
+  DEFAULT_BUILDING,
+  PROFILE_TYPES,
+  ROOF_TYPES,
+} from "../config/models";
+import { CameraPose } from "./cameraViews";
+import { localDateTime } from "./sunUtils";
+import { HEX_COLOR, Json, Validator } from "./validation";
+
+// Everything a shared link restores. Uploaded files (models, HDRIs,
+// background images) can't travel in a URL and are left out.
+export interface ShareState {
+  model?: string; // Missing for an imported model
+  zones: ZoneConfigs;
+  age: number;
+  facadeOrientation: string; // Key of FACADE_ORIENTATIONS
+  overhangDepth: number;
+  cladding?: CladdingParameters; // Generator parameters of the parametric model
+  building?: BuildingParameters; // Shown building
+  environment: {
+    id?: string; // Preset id, missing for an uploaded HDRI
+    exposure: number;
+    rotation: number; // Degrees
+    background: boolean;
+  };
+  background: { position: number; rotation: number; size: number };
+  sun?: {
+    // Active sun study
+    date: string;
+    time: number;
+    latitude: number;
+    longitude: number;
+    azimuth: number; // Of the facade, as refined after the orientation preset
+  };
+  section?: {
+    // Active section plane
+    axis: SectionAxis;
+    position: number; // Percent across the facade
+    normal?: { x: number; y: number; z: number }; // For the custom axis
+  };
+  camera?: CameraPose;
+}
+
+export type SectionAxis = (typeof SECTION_AXES)[keyof typeof SECTION_AXES];
+
+// What a link restores; missing values keep their defaults
+export type SharedState = Partial<Omit<ShareState, "environment">> & {
+  environment?: Partial<ShareState["environment"]>;
+};
+
+// Values of list parameters in the order they appear in the link
+const CLADDING_KEYS = [
+  "facadeWidth",
+  "facadeHeight",
+  "profile",
+  "orientation",
+  "boardWidth",
+  "thickness",
+  "gap",
+  "battenSpacing",
+] as const;
+// The overhang of the building is the one of the link
+const BUILDING_KEYS = [
+  "length",
+  "depth",
+  "storeys",
+  "storeyHeight",
+  "roof",
+  "roofPitch",
+  "windowsPerStorey",
+  "windowWidth",
+  "windowHeight",
+  "door",
+] as const;
+const CAMERA_KEYS = ["x", "y", "z", "targetX", "targetY", "targetZ"];
+const BACKGROUND_KEYS = ["position", "rotation", "size"];
+const SUN_KEYS = ["date", "time", "latitude", "longitude", "azimuth"];
+const SECTION_KEYS = ["axis", "position"];
+const CUSTOM_SECTION_KEYS = [...SECTION_KEYS, "x", "y", "z"];
+
+const PATH = "Link";
+
+// π as rounded in the link
+const HALF_TURN = 3.142;
+
+const round = (value: number) => String(Math.round(value * 1000) / 1000);
+
+// Commas separate list values and stay readable in the link
+const param = (key: string, values: (string | number)[]) =>
+  `${key}=${values
+    .map((value) => encodeURIComponent(typeof value === "number" ? round(value) : value))
+    .join(",")}`;
+
+/**
+ * Query string of a configuration, readable enough to see what a link shows,
+ * e.g. `model=FVG.073&cladding=larch,rough,glazed,c8a165&age=5`.
+ */
+export function encodeShareState(state: ShareState): string {
+  const params = state.model ? [param("model", [state.model])] : [];
+  FACADE_ZONES.forEach(({ id }) => {
+    const zone = state.zones[id];
+    if (!zone) return;
+    const color = zone.finishColor ? [zone.finishColor.slice(1)] : [];
+    params.push(param(id, [zone.woodType, zone.surface, zone.treatment, ...color]));
+  });
+  params.push(
+    param("age", [state.age]),
+    param("orientation", [state.facadeOrientation]),
+    param("overhang", [state.overhangDepth])
+  );
+  if (state.cladding) {
+    const cladding = state.cladding;
+    params.push(param("generator", CLADDING_KEYS.map((key) => cladding[key])));
+  }
+  if (state.building) {
+    const building = state.building;
+    params.push(
+      param(
+        "building",
+        BUILDING_KEYS.map((key) => {
+          const value = building[key];
+          return typeof value === "boolean" ? (value ? 1 : 0) : value;
+        })
+      )
+    );
+  }
+  const { environment, background, sun, section, camera } = state;
+  if (environment.id) params.push(param("environment", [environment.id]));
+  params.push(
+    param("exposure", [environment.exposure]),
+    param("environmentRotation", [environment.rotation]),
+    param("environmentBackground", [environment.background ? 1 : 0]),
+    param("background", [background.position, background.rotation, background.size])
+  );
+  if (sun) {
+    params.push(param("sun", [sun.date, sun.time, sun.latitude, sun.longitude, sun.azimuth]));
+  }
+  if (section) {
+    const normal = section.axis === "custom" && section.normal;
+    params.push(
+      param("section", [
+        section.axis,
+        section.position,
+        ...(normal ? [normal.x, normal.y, normal.z] : []),
+      ])
+    );
+  }
+  if (camera) {
+    params.push(param("camera", [...camera.position.toArray(), ...camera.target.toArray()]));
+  }
+  return params.join("&");
+}
+
+/** Link to the current page showing the given configuration */
+export function shareLink(state: ShareState): string {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}?${encodeShareState(state)}`;
+}
+
+/**
+ * Reads a configuration from a query string. Every parameter is checked on
+ * its own: invalid ones are left out, so their defaults apply, and reported
+ * in `errors`. Unknown parameters are ignored.
+ */
+export function parseShareState(
+  search: string,
+  catalog: MaterialCatalog,
+  modelIds: string[]
+): { state: SharedState; errors: string[] } {
+  const query = new URLSearchParams(search);
+  const v = new Validator();
+  const state: SharedState = {};
+
+  // Runs a parser and keeps its result only if it reported no problem
+  const read = <T>(key: string, parse: (value: string) => T): T | undefined => {
+    const value = query.get(key);
+    if (value === null) return undefined;
+    const before = v.errors.length;
+    const result = parse(value);
+    return v.errors.length === before ? result : undefined;
+  };
+  // List values by name, so the validator reports which one is wrong
+  const list = (value: string, keys: readonly string[], key: string): Json => {
+    const values = value.split(",");
+    if (values.length !== keys.length) {
+      v.fail(`${PATH}.${key}`, `erwartet ${keys.length} Werte, durch Komma getrennt`);
+    }
+    return Object.fromEntries(keys.map((k, i) => [k, values[i]]));
+  };
+  const numbers = (obj: Json) =>
+    Object.fromEntries(Object.entries(obj).map(([k, value]) => [k, Number(value)]));
+  const number = (key: string, min: number, max: number) =>
+    read(key, (value) => v.number({ [key]: Number(value) }, key, PATH, min, max));
+  const oneOf = <T extends string>(key: string, values: readonly T[]) =>
+    read(key, (value) => v.oneOf({ [key]: value }, key, PATH, values));
+
+  state.model = oneOf("model", modelIds);
+
+  const zones: ZoneConfigs = {};
+  FACADE_ZONES.forEach(({ id }) => {
+    const zone = read(id, (value) => {
+      const [woodType, surface, treatment, color] = value.split(",");
+      const path = `${PATH}.${id}`;
+      const check = (name: string, entry: string, entries: { id: string }[]) => {
+        if (!entries.some((e) => e.id === entry)) {
+          v.fail(path, `unbekannte ${name} "${entry ?? ""}" im Materialkatalog`);
+        }
+      };
+      check("Holzart", woodType, catalog.woods);
+      check("Oberfläche", surface, catalog.surfaces);
+      check("Behandlung", treatment, catalog.treatments);
+      if (color === undefined) return { woodType, surface, treatment };
+      if (!HEX_COLOR.test(`#${color}`)) {
+        v.fail(path, "erwartet Farbe im Format rrggbb");
+        return { woodType, surface, treatment };
+      }
+      // Only colors the treatment offers, e.g. not from an older catalog
+      const colors = catalog.treatments.find((t) => t.id === treatment)?.colors ?? {};
+      const finishColor = Object.values(colors).find(
+        (hex) => hex.toLowerCase() === `#${color}`.toLowerCase()
+      );
+      if (!finishColor) v.fail(path, `Farbe ${color} gibt es für "${treatment}" nicht`);
+      return { woodType, surface, treatment, finishColor };
+    });
+    if (zone) zones[id] = zone;
+  });
+  if (Object.keys(zones).length > 0) state.zones = zones;
+
+  state.age = number("age", 0, AGING_TIMELINE_YEARS);
+  state.facadeOrientation = oneOf("orientation", Object.keys(FACADE_ORIENTATIONS));
+  state.overhangDepth = number("overhang", 0, 1.5);
+
+  state.cladding = read("generator", (value) => {
+    const path = `${PATH}.generator`;
+    const raw = list(value, CLADDING_KEYS, "generator");
+    const sizes = numbers(raw);
+    return {
+      facadeWidth: v.number(sizes, "facadeWidth", path, 0.5, 12),
+      facadeHeight: v.number(sizes, "facadeHeight", path, 0.5, 8),
+      profile: v.oneOf(raw, "profile", path, Object.values(PROFILE_TYPES)),
+      orientation: v.oneOf(raw, "orientation", path, BOARD_ORIENTATIONS),
+      boardWidth: v.number(sizes, "boardWidth", path, 30, 300),
+      thickness: v.number(sizes, "thickness", path, 10, 60),
+      gap: v.number(sizes, "gap", path, 0, 60),
+      battenSpacing: v.number(sizes, "battenSpacing", path, 300, 1000),
+    };
+  });
+
+  state.building = read("building", (value) => {
+    const path = `${PATH}.building`;
+    const raw = list(value, BUILDING_KEYS, "building");
+    const sizes = numbers(raw);
+    return {
+      length: v.number(sizes, "length", path, 4, 30),
+      depth: v.number(sizes, "depth", path, 4, 20),
+      storeys: Math.round(v.number(sizes, "storeys", path, 1, 5)),
+      storeyHeight: v.number(sizes, "storeyHeight", path, 2.4, 4),
+      roof: v.oneOf(raw, "roof", path, Object.values(ROOF_TYPES)),
+      roofPitch: v.number(sizes, "roofPitch", path, 5, 50),
+      windowsPerStorey: Math.round(v.number(sizes, "windowsPerStorey", path, 0, 8)),
+      windowWidth: v.number(sizes, "windowWidth", path, 0.4, 3),
+      windowHeight: v.number(sizes, "windowHeight", path, 0.4, 2.4),
+      door: v.oneOf(raw, "door", path, ["0", "1"]) === "1",
+      overhang: state.overhangDepth ?? DEFAULT_BUILDING.overhang,
+    };
+  });
+
+  // Environment values are independent, so each falls back on its own
+  const environment = {
+    id: oneOf("environment", ENVIRONMENT_PRESETS.map((preset) => preset.id)),
+    exposure: number("exposure", 0.1, 3),
+    rotation: number("environmentRotation", 0, 360),
+    background: read("environmentBackground", (value) =>
+      v.oneOf({ value }, "value", `${PATH}.environmentBackground`, ["0", "1"]) === "1"
+    ),
+  };
+  if (Object.values(environment).some((value) => value !== undefined)) {
+    state.environment = environment;
+  }
+
+  state.background = read("background", (value) => {
+    const path = `${PATH}.background`;
+    const values = numbers(list(value, BACKGROUND_KEYS, "background"));
+    return {
+      position: v.number(values, "position", path, -10, 10),
+      rotation: v.number(values, "rotation", path, -HALF_TURN, HALF_TURN),
+      size: v.number(values, "size", path, 0.1, 2),
+    };
+  });
+
+  state.sun = read("sun", (value) => {
+    const path = `${PATH}.sun`;
+    const raw = list(value, SUN_KEYS, "sun");
+    const values = numbers(raw);
+    const date = String(raw.date);
+    if (!localDateTime(date, 0)) v.fail(`${path}.date`, "erwartet Datum im Format JJJJ-MM-TT");
+    return {
+      date,
+      time: v.number(values, "time", path, 0, 24),
+      latitude: v.number(values, "latitude", path, -90, 90),
+      longitude: v.number(values, "longitude", path, -180, 180),
+      azimuth: v.number(values, "azimuth", path, 0, 359),
+    };
+  });
+
+  state.section = read("section", (value) => {
+    const path = `${PATH}.section`;
+    const axis = v.oneOf({ axis: value.split(",")[0] }, "axis", path, Object.values(SECTION_AXES));
+    const keys = axis === "custom" ? CUSTOM_SECTION_KEYS : SECTION_KEYS;
+    const values = numbers(list(value, keys, "section"));
+    const position = v.number(values, "position", path, 0, 100);
+    if (axis !== "custom") return { axis, position };
+    const [x, y, z] = ["x", "y", "z"].map((key) => v.number(values, key, path, -1000, 1000));
+    return { axis, position, normal: { x, y, z } };
+  });
+
+  state.camera = read("camera", (value) => {
+    const path = `${PATH}.camera`;
+    const values = numbers(list(value, CAMERA_KEYS, "camera"));
+    const [x, y, z, tx, ty, tz] = CAMERA_KEYS.map((key) =>
+      v.number(values, key, path, -1000, 1000)
+    );
+    return { position: new Vector3(x, y, z), target: new Vector3(tx, ty, tz) };
+  });
+
+  return { state, errors: v.errors };
+}
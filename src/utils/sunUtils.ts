@@ -0,0 +1,73 @@
+import { Vector3 } from "three";
+
+export interface SolarPosition {
+  azimuth: number; // Degrees clockwise from north
+  elevation: number; // Degrees above the horizon
+}
+
+const RAD = Math.PI / 180;
+const wrap = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+/**
+ * Position of the sun at a moment and place, after the low-precision formulae
+ * of the Astronomical Almanac (about 0.01° between 1950 and 2050).
+ */
+export function solarPosition(
+  date: Date,
+  latitude: number,
+  longitude: number
+): SolarPosition {
+  // Days since J2000.0
+  const n = date.getTime() / 86400000 + 2440587.5 - 2451545.0;
+
+  // Ecliptic longitude of the sun
+  const meanLongitude = wrap(280.46 + 0.9856474 * n);
+  const meanAnomaly = wrap(357.528 + 0.9856003 * n) * RAD;
+  const lambda =
+    (meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly)) * RAD;
+  const obliquity = (23.439 - 0.0000004 * n) * RAD;
+
+  // Equatorial coordinates
+  const rightAscension = Math.atan2(Math.cos(obliquity) * Math.sin(lambda), Math.cos(lambda));
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(lambda));
+
+  // Hour angle from the local sidereal time
+  const siderealTime = wrap((18.697374558 + 24.06570982441908 * n) * 15 + longitude);
+  const hourAngle = siderealTime * RAD - rightAscension;
+
+  const phi = latitude * RAD;
+  const elevation = Math.asin(
+    Math.sin(phi) * Math.sin(declination) +
+      Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle)
+  );
+  const azimuth = Math.atan2(
+    -Math.sin(hourAngle),
+    Math.tan(declination) * Math.cos(phi) - Math.sin(phi) * Math.cos(hourAngle)
+  );
+  return { azimuth: wrap(azimuth / RAD), elevation: elevation / RAD };
+}
+
+/**
+ * Unit vector towards the sun in scene coordinates. The facade faces +Z
+ * towards the compass direction facadeAzimuth, with +X to the right as seen
+ * from outside.
+ */
+export function sunDirection(sun: SolarPosition, facadeAzimuth: number): Vector3 {
+  const relative = (sun.azimuth - facadeAzimuth) * RAD;
+  const elevation = sun.elevation * RAD;
+  return new Vector3(
+    -Math.sin(relative) * Math.cos(elevation),
+    Math.sin(elevation),
+    Math.cos(relative) * Math.cos(elevation)
+  );
+}
+
+/** Local date and time of day in hours, from a "YYYY-MM-DD" date */
+export function localDateTime(date: string, hours: number): Date | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date.trim());
+  if (!match) return undefined;
+  const [year, month, day] = match.slice(1).map(Number);
+  // Rejects days that roll over into the next month, e.g. 31 June
+  if (new Date(year, month - 1, day).getDate() !== day) return undefined;
+  return new Date(year, month - 1, day, 0, Math.round(hours * 60));
+}
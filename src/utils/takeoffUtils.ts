@@ -0,0 +1,253 @@
+import { Box3, Matrix4, Mesh, Object3D, Quaternion, Vector3 } from "three";
+import { MaterialCatalog, ZoneConfigs } from "../config/catalog";
+import {
+  COATING_CONSUMPTION,
+  CURRENCY,
+  DEFAULT_ZONE,
+  UNIT_PRICES,
+} from "../config/constants";
+import { ModelEntry } from "../config/models";
+import { detectZone } from "./modelUtils";
+
+// Candidate board directions in the facade plane, XY for a model facing +Z;
+// a board runs along the one with the narrowest extent across it
+const BOARD_AXES = [
+  new Vector3(0, 1, 0),
+  new Vector3(1, 0, 0),
+  new Vector3(1, 1, 0).normalize(),
+  new Vector3(1, -1, 0).normalize(),
+];
+
+export interface ZoneMeasurement {
+  count: number;
+  meters: number; // Running metres
+  boardArea: number; // Front face, length × width, in m²
+  surfaceArea: number; // All sides in m², the coated area
+}
+
+export interface FacadeMeasurement {
+  area: number; // Facade face covered by the cladding in m²
+  zones: { [zoneId: string]: ZoneMeasurement };
+}
+
+export interface TakeoffLine {
+  position: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  total: number;
+}
+
+export interface QuantityTakeoff {
+  model: { id: string; name: string; profileType: string };
+  area: number;
+  boardCount: number;
+  boardMeters: number;
+  battenMeters: number;
+  trimMeters: number;
+  coatingLitres: number;
+  lines: TakeoffLine[];
+  total: number;
+  currency: string;
+}
+
+const EMPTY_ZONE: ZoneMeasurement = { count: 0, meters: 0, boardArea: 0, surfaceArea: 0 };
+
+function triangleAreas(mesh: Mesh, matrix: Matrix4): number {
+  const position = mesh.geometry.attributes.position;
+  const index = mesh.geometry.index;
+  const count = index ? index.count : position.count;
+  const a = new Vector3();
+  const b = new Vector3();
+  const c = new Vector3();
+  let area = 0;
+  for (let i = 0; i < count; i += 3) {
+    const [ia, ib, ic] = index
+      ? [index.getX(i), index.getX(i + 1), index.getX(i + 2)]
+      : [i, i + 1, i + 2];
+    a.fromBufferAttribute(position, ia).applyMatrix4(matrix);
+    b.fromBufferAttribute(position, ib).applyMatrix4(matrix);
+    c.fromBufferAttribute(position, ic).applyMatrix4(matrix);
+    area += b.sub(a).cross(c.sub(a)).length() / 2;
+  }
+  return area;
+}
+
+// Elements of a generated building lie in the plane of their wall; the
+// axes are turned about the vertical from +Z to its normal
+function boardAxes(mesh: Mesh, matrix: Matrix4): Vector3[] {
+  const wallNormal: number[] | undefined = mesh.userData.wallNormal;
+  if (!wallNormal) return BOARD_AXES;
+  const normal = new Vector3().fromArray(wallNormal).transformDirection(matrix);
+  const rotation = new Quaternion().setFromUnitVectors(new Vector3(0, 0, 1), normal);
+  return BOARD_AXES.map((axis) => axis.clone().applyQuaternion(rotation));
+}
+
+// Length and width of an element from its extents along the board axes
+function measureElement(mesh: Mesh, matrix: Matrix4) {
+  const position = mesh.geometry.attributes.position;
+  const vertex = new Vector3();
+  const axes = boardAxes(mesh, matrix);
+  const ranges = axes.map(() => ({ min: Infinity, max: -Infinity }));
+  for (let i = 0; i < position.count; i++) {
+    vertex.fromBufferAttribute(position, i).applyMatrix4(matrix);
+    axes.forEach((axis, k) => {
+      const d = vertex.dot(axis);
+      ranges[k].min = Math.min(ranges[k].min, d);
+      ranges[k].max = Math.max(ranges[k].max, d);
+    });
+  }
+  const extents = ranges.map((r) => r.max - r.min);
+
+  // Axes come in perpendicular pairs: vertical/horizontal, both diagonals
+  let best = { length: 0, width: Infinity };
+  for (let k = 0; k < axes.length; k++) {
+    const across = extents[k ^ 1];
+    if (across < best.width) best = { length: extents[k], width: across };
+  }
+  return best;
+}
+
+/**
+ * Measures the elements of a facade per zone. Works on the model's own
+ * coordinates (metres), so the scene transform does not distort the result.
+ */
+export function measureFacade(object: Object3D): FacadeMeasurement {
+  object.updateMatrixWorld(true);
+  const toModel = object.matrixWorld.clone().invert();
+  const zones: FacadeMeasurement["zones"] = {};
+  const claddingBox = new Box3();
+
+  object.traverse((child) => {
+    if (!(child instanceof Mesh) || child.userData.context) return;
+    const zone: string = child.userData.zone ?? detectZone(child);
+    const matrix = toModel.clone().multiply(child.matrixWorld);
+    const { length, width } = measureElement(child, matrix);
+
+    const totals = (zones[zone] ??= { ...EMPTY_ZONE });
+    totals.count += 1;
+    totals.meters += length;
+    totals.boardArea += length * width;
+    totals.surfaceArea += triangleAreas(child, matrix);
+
+    if (zone === DEFAULT_ZONE) {
+      child.geometry.computeBoundingBox();
+      claddingBox.union(child.geometry.boundingBox!.clone().applyMatrix4(matrix));
+    }
+  });
+
+  // A generated building knows its clad wall area
+  const size = claddingBox.isEmpty() ? new Vector3() : claddingBox.getSize(new Vector3());
+  return { area: object.userData.claddingArea ?? size.x * size.y, zones };
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const line = (
+  position: string,
+  quantity: number,
+  unit: string,
+  unitPrice: number
+): TakeoffLine => ({
+  position,
+  quantity: round(quantity),
+  unit,
+  unitPrice,
+  total: round(round(quantity) * unitPrice),
+});
+
+/**
+ * Turns the measured quantities into a bill of materials with a price
+ * estimate, using the material chosen for each zone.
+ */
+export function computeTakeoff(
+  measurement: FacadeMeasurement,
+  model: ModelEntry,
+  zoneConfigs: ZoneConfigs,
+  catalog: MaterialCatalog
+): QuantityTakeoff {
+  const zone = (id: string) => measurement.zones[id] ?? EMPTY_ZONE;
+  const cladding = zone(DEFAULT_ZONE);
+  const battens = zone("battens");
+  const trimMeters = zone("corners").meters + zone("frames").meters;
+  const configOf = (id: string) => zoneConfigs[id] ?? zoneConfigs[DEFAULT_ZONE];
+  const nameOf = (entries: { id: string; name: string }[], id: string) =>
+    entries.find((e) => e.id === id)?.name ?? id;
+
+  const lines: TakeoffLine[] = [];
+  const board = configOf(DEFAULT_ZONE);
+  lines.push(
+    line(
+      `Schalung ${model.profileType}, ${nameOf(catalog.woods, board.woodType)}, ${nameOf(catalog.surfaces, board.surface)}`,
+      cladding.boardArea,
+      "m²",
+      (UNIT_PRICES.woods[board.woodType] ?? 0) +
+        (UNIT_PRICES.surfaces[board.surface] ?? 0)
+    )
+  );
+  if (battens.meters > 0) {
+    lines.push(line("Lattung", battens.meters, "m", UNIT_PRICES.battenPerMeter));
+  }
+  if (trimMeters > 0) {
+    lines.push(
+      line("Eckprofile und Fensterrahmen", trimMeters, "m", UNIT_PRICES.trimPerMeter)
+    );
+  }
+
+  // Coating per treatment; battens stay untreated
+  const litres: { [treatmentId: string]: number } = {};
+  Object.entries(measurement.zones).forEach(([zoneId, totals]) => {
+    if (zoneId === "battens") return;
+    const treatment = configOf(zoneId).treatment;
+    const consumption = COATING_CONSUMPTION[treatment];
+    if (!consumption) return;
+    litres[treatment] =
+      (litres[treatment] ?? 0) +
+      totals.surfaceArea * consumption.litresPerSquareMetre * consumption.coats;
+  });
+  Object.entries(litres).forEach(([treatment, amount]) => {
+    lines.push(
+      line(
+        `Beschichtung ${nameOf(catalog.treatments, treatment)}`,
+        amount,
+        "l",
+        UNIT_PRICES.treatments[treatment] ?? 0
+      )
+    );
+  });
+
+  return {
+    model: { id: model.id, name: model.name, profileType: model.profileType },
+    area: round(measurement.area),
+    boardCount: cladding.count,
+    boardMeters: round(cladding.meters),
+    battenMeters: round(battens.meters),
+    trimMeters: round(trimMeters),
+    coatingLitres: round(Object.values(litres).reduce((sum, l) => sum + l, 0)),
+    lines,
+    total: round(lines.reduce((sum, l) => sum + l.total, 0)),
+    currency: CURRENCY,
+  };
+}
+
+// Semicolon separated with a BOM, so spreadsheet apps read umlauts correctly
+export function takeoffToCsv(takeoff: QuantityTakeoff): string {
+  const rows: (string | number)[][] = [
+    ["Modell", `${takeoff.model.name} (${takeoff.model.id})`],
+    ["Fassadenfläche (m²)", takeoff.area],
+    ["Anzahl Bretter", takeoff.boardCount],
+    ["Laufmeter Profil (m)", takeoff.boardMeters],
+    ["Lattung (m)", takeoff.battenMeters],
+    ["Eckprofile und Fensterrahmen (m)", takeoff.trimMeters],
+    ["Beschichtung (l)", takeoff.coatingLitres],
+    [],
+    ["Position", "Menge", "Einheit", `Preis/Einheit (${takeoff.currency})`, `Total (${takeoff.currency})`],
+    ...takeoff.lines.map((l) => [l.position, l.quantity, l.unit, l.unitPrice, l.total]),
+    ["Total", "", "", "", takeoff.total],
+  ];
+  const cell = (value: string | number) => {
+    const text = String(value);
+    return /[";\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return "\uFEFF" + rows.map((row) => row.map(cell).join(";")).join("\r\n");
+}
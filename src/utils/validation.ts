@@ -0,0 +1,156 @@
+export class ValidationError extends Error {
+  title: string;
+  errors: string[];
+
+  constructor(title: string, errors: string[]) {
+    super(`${title}:\n${errors.join("\n")}`);
+    this.name = "ValidationError";
+    this.title = title;
+    this.errors = errors;
+  }
+}
+
+export type Json = { [key: string]: unknown };
+
+export const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+export const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Collects every problem instead of stopping at the first one, so the
+// product team can fix a broken config file in one go.
+export class Validator {
+  errors: string[] = [];
+
+  fail(path: string, message: string) {
+    this.errors.push(`${path}: ${message}`);
+  }
+
+  string(obj: Json, key: string, path: string): string {
+    const value = obj[key];
+    if (typeof value !== "string" || value.length === 0) {
+      this.fail(`${path}.${key}`, "erwartet nicht-leeren Text");
+      return "";
+    }
+    return value;
+  }
+
+  optionalString(obj: Json, key: string, path: string): string | undefined {
+    return obj[key] === undefined ? undefined : this.string(obj, key, path);
+  }
+
+  oneOf<T extends string>(obj: Json, key: string, path: string, values: readonly T[]): T {
+    const value = obj[key];
+    if (!values.includes(value as T)) {
+      this.fail(`${path}.${key}`, `erwartet einen von ${values.join(", ")}`);
+      return values[0];
+    }
+    return value as T;
+  }
+
+  object(obj: Json, key: string, path: string): Json {
+    const value = obj[key];
+    if (!isObject(value)) {
+      this.fail(`${path}.${key}`, "erwartet ein Objekt");
+      return {};
+    }
+    return value;
+  }
+
+  number(obj: Json, key: string, path: string, min: number, max: number): number {
+    const value = obj[key];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      this.fail(`${path}.${key}`, "erwartet eine Zahl");
+      return 0;
+    }
+    if (value < min || value > max) {
+      this.fail(`${path}.${key}`, `erwartet Wert zwischen ${min} und ${max}, ist ${value}`);
+    }
+    return value;
+  }
+
+  optionalNumber(obj: Json, key: string, path: string, min: number, max: number) {
+    return obj[key] === undefined ? undefined : this.number(obj, key, path, min, max);
+  }
+
+  rgb(obj: Json, key: string, path: string): readonly [number, number, number] {
+    const value = obj[key];
+    if (
+      !Array.isArray(value) ||
+      value.length !== 3 ||
+      value.some((c) => typeof c !== "number" || c < 0 || c > 1)
+    ) {
+      this.fail(`${path}.${key}`, "erwartet [r, g, b] mit Werten zwischen 0 und 1");
+      return [0, 0, 0];
+    }
+    return [value[0], value[1], value[2]];
+  }
+
+  colorMap(obj: Json, key: string, path: string) {
+    const value = obj[key];
+    if (value === undefined) return undefined;
+    if (!isObject(value) || Object.keys(value).length === 0) {
+      this.fail(`${path}.${key}`, "erwartet ein Objekt { Name: \"#rrggbb\" }");
+      return undefined;
+    }
+    const colors: { [name: string]: string } = {};
+    Object.entries(value).forEach(([name, hex]) => {
+      if (typeof hex !== "string" || !HEX_COLOR.test(hex)) {
+        this.fail(`${path}.${key}.${name}`, "erwartet Farbe im Format #rrggbb");
+      } else {
+        colors[name] = hex;
+      }
+    });
+    return colors;
+  }
+
+  list<T extends { id: string; name: string }>(
+    obj: Json,
+    key: string,
+    parse: (entry: Json, path: string) => T
+  ): T[] {
+    const value = obj[key];
+    if (!Array.isArray(value) || value.length === 0) {
+      this.fail(key, "erwartet eine nicht-leere Liste");
+      return [];
+    }
+    const entries: T[] = [];
+    value.forEach((entry, i) => {
+      const path = `${key}[${i}]`;
+      if (!isObject(entry)) {
+        this.fail(path, "erwartet ein Objekt");
+        return;
+      }
+      entries.push(parse(entry, path));
+    });
+
+    // Ids and display names must be unique within a list
+    const ids = new Set<string>();
+    const names = new Set<string>();
+    entries.forEach((entry, i) => {
+      if (ids.has(entry.id)) this.fail(`${key}[${i}].id`, `doppelte Id "${entry.id}"`);
+      if (names.has(entry.name)) this.fail(`${key}[${i}].name`, `doppelter Name "${entry.name}"`);
+      ids.add(entry.id);
+      names.add(entry.name);
+    });
+    return entries;
+  }
+}
+
+// Fetches a JSON config file from public/ and hands it to the validator
+export async function fetchJson(url: string, title: string): Promise<unknown> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new ValidationError(title, [
+      `${url}: konnte nicht geladen werden (HTTP ${response.status})`,
+    ]);
+  }
+
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new ValidationError(title, [
+      `${url}: kein gültiges JSON (${(error as Error).message})`,
+    ]);
+  }
+}
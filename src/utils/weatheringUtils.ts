@@ -0,0 +1,148 @@
+import { Box3, BufferAttribute, Mesh, Object3D, Vector3 } from "three";
+import { PREVAILING_WEATHER_AZIMUTH } from "../config/constants";
+
+export interface WindowSill {
+  center: Vector3; // World position of the sill centre, at its underside
+  along: Vector3; // Horizontal unit direction along the sill
+  width: number;
+}
+
+export interface WeatheringOptions {
+  orientation: number; // Compass azimuth of the model's +Z side in degrees
+  overhangDepth: number; // Roof overhang depth in metres
+  roofLine?: (worldPosition: Vector3) => number; // Roof edge above a point, else the top
+  sills?: WindowSill[]; // Found in the window frames if not given
+}
+
+// Name of the per-vertex exposure attribute read by the weathering shader
+export const WEATHERING_ATTRIBUTE = "weathering";
+
+// Driving rain is assumed to fall at 30° from vertical, so an overhang
+// shelters about depth / tan(30°) of wall below it.
+const RAIN_SHELTER_RATIO = 1 / Math.tan(Math.PI / 6);
+const STREAK_LENGTH = 1.2;
+// Frame parts narrower than this are jambs, which shed no runoff
+const MIN_SILL_WIDTH = 0.3;
+// Points further in front of or behind a sill belong to another wall
+const SILL_WALL_DISTANCE = 0.5;
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+// Cheap deterministic hash for stable streak patterns
+function hash(n: number): number {
+  const s = Math.sin(n * 127.1) * 43758.5453;
+  return s - Math.floor(s);
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Computes how exposed a surface point is to weathering (0 = sheltered,
+ * 1 = fully exposed weather side, up to ~1.3 inside runoff streaks).
+ */
+export function computeExposure(
+  worldPosition: Vector3,
+  worldNormal: Vector3,
+  top: number,
+  options: WeatheringOptions
+): number {
+  // Compass direction the surface faces. +X is to the right of the facade
+  // seen from outside, so it turns clockwise from +Z, as in sunDirection.
+  const azimuth =
+    options.orientation -
+    (Math.atan2(worldNormal.x, worldNormal.z) * 180) / Math.PI;
+  const rain = 0.5 + 0.5 * Math.cos(toRadians(azimuth - PREVAILING_WEATHER_AZIMUTH));
+  const sun = 0.5 + 0.5 * Math.cos(toRadians(azimuth - 180));
+  let exposure = 0.3 + 0.7 * (0.6 * rain + 0.4 * sun);
+
+  // Upward faces collect water, downward faces stay dry
+  exposure *= 1 + 0.3 * worldNormal.y;
+
+  // Shelter below the roof overhang
+  if (options.overhangDepth > 0) {
+    const shelteredHeight = options.overhangDepth * RAIN_SHELTER_RATIO;
+    const depthBelowRoof = (options.roofLine?.(worldPosition) ?? top) - worldPosition.y;
+    exposure *= 0.3 + 0.7 * smoothstep(0, shelteredHeight, depthBelowRoof);
+  }
+
+  // Runoff streaks below window sills, fading downwards
+  for (const sill of options.sills ?? []) {
+    const below = sill.center.y - worldPosition.y;
+    if (below <= 0 || below >= STREAK_LENGTH) continue;
+    const dx = worldPosition.x - sill.center.x;
+    const dz = worldPosition.z - sill.center.z;
+    const u = dx * sill.along.x + dz * sill.along.z;
+    const offset = Math.abs(dx * sill.along.z - dz * sill.along.x);
+    if (Math.abs(u) < sill.width / 2 && offset < SILL_WALL_DISTANCE) {
+      const streak = hash(Math.floor(u / 0.03));
+      exposure += 0.4 * streak * (1 - below / STREAK_LENGTH);
+    }
+  }
+
+  return Math.max(exposure, 0);
+}
+
+/**
+ * Sills of the window frames below `root`: every frame mesh wide enough to
+ * be a sill or a whole frame sheds runoff from its underside. Expects world
+ * matrices to be up to date.
+ */
+export function findWindowSills(root: Object3D): WindowSill[] {
+  const sills: WindowSill[] = [];
+  const box = new Box3();
+  root.traverse((child) => {
+    if (!(child instanceof Mesh) || child.userData.zone !== "frames") return;
+    box.setFromObject(child);
+    const size = box.getSize(new Vector3());
+    const width = Math.max(size.x, size.z);
+    if (width < MIN_SILL_WIDTH) return;
+    const center = box.getCenter(new Vector3());
+    center.y = box.min.y;
+    const along = size.x >= size.z ? new Vector3(1, 0, 0) : new Vector3(0, 0, 1);
+    sills.push({ center, along, width });
+  });
+  return sills;
+}
+
+/**
+ * Writes the exposure of every vertex into the `weathering` attribute of all
+ * meshes below `root`. Expects world matrices to be up to date.
+ */
+export function applyWeatheringExposure(
+  root: Object3D,
+  options: WeatheringOptions
+): void {
+  const top = new Box3().setFromObject(root).max.y;
+  const exposureOptions = { ...options, sills: options.sills ?? findWindowSills(root) };
+  const position = new Vector3();
+  const normal = new Vector3();
+
+  root.traverse((child) => {
+    if (!(child instanceof Mesh)) return;
+    const geometry = child.geometry;
+    const positions = geometry.attributes.position;
+    if (!positions) return;
+    if (!geometry.attributes.normal) {
+      geometry.computeVertexNormals();
+    }
+    const normals = geometry.attributes.normal;
+
+    let attribute = geometry.getAttribute(WEATHERING_ATTRIBUTE);
+    if (!(attribute instanceof BufferAttribute) || attribute.count !== positions.count) {
+      attribute = new BufferAttribute(new Float32Array(positions.count), 1);
+      geometry.setAttribute(WEATHERING_ATTRIBUTE, attribute);
+    }
+
+    for (let i = 0; i < positions.count; i++) {
+      position.fromBufferAttribute(positions, i).applyMatrix4(child.matrixWorld);
+      normal
+        .fromBufferAttribute(normals, i)
+        .transformDirection(child.matrixWorld);
+      attribute.setX(i, computeExposure(position, normal, top, exposureOptions));
+    }
+    attribute.needsUpdate = true;
+  });
+}
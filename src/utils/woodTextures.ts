@@ -0,0 +1,132 @@
+import {
+  DataTexture,
+  LinearFilter,
+  LinearMipmapLinearFilter,
+  RepeatWrapping,
+  SRGBColorSpace,
+  Texture,
+} from "three";
+import { SurfaceEntry } from "../config/catalog";
+
+export interface WoodTextures {
+  diffuse: Texture;
+  normal: Texture;
+  roughness: Texture;
+}
+
+const SIZE = 256; // Pixels per tile edge
+const TILE_SIZE = 0.5; // Metres covered by one tile
+const RINGS_PER_TILE = 24;
+const RELIEF = 3; // Slope of the height field in the normal map
+
+const textureCache = new Map<string, WoodTextures>();
+
+// Tileable value noise with `cellsX` × `cellsY` lattice cells per tile
+function valueNoise(cellsX: number, cellsY: number, seed: number) {
+  const wrap = (i: number, cells: number) => ((i % cells) + cells) % cells;
+  const hash = (i: number, j: number) => {
+    const h =
+      Math.sin(wrap(i, cellsX) * 127.1 + wrap(j, cellsY) * 311.7 + seed * 74.7) * 43758.5453;
+    return h - Math.floor(h);
+  };
+  const smooth = (t: number) => t * t * (3 - 2 * t);
+  return (x: number, y: number) => {
+    const fx = x * cellsX;
+    const fy = y * cellsY;
+    const i = Math.floor(fx);
+    const j = Math.floor(fy);
+    const tx = smooth(fx - i);
+    const ty = smooth(fy - j);
+    const a = hash(i, j) + (hash(i + 1, j) - hash(i, j)) * tx;
+    const b = hash(i, j + 1) + (hash(i + 1, j + 1) - hash(i, j + 1)) * tx;
+    return a + (b - a) * ty;
+  };
+}
+
+function dataTexture(data: Uint8Array, isColor: boolean): Texture {
+  const texture = new DataTexture(data, SIZE, SIZE);
+  texture.wrapS = RepeatWrapping;
+  texture.wrapT = RepeatWrapping;
+  texture.repeat.set(1 / TILE_SIZE, 1 / TILE_SIZE);
+  texture.magFilter = LinearFilter;
+  texture.minFilter = LinearMipmapLinearFilter;
+  texture.generateMipmaps = true;
+  if (isColor) texture.colorSpace = SRGBColorSpace;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/**
+ * Generated grain for surfaces without a bundled texture set. The grain runs
+ * along v like the board UVs. Sawn fibres grow with the roughness of the
+ * surface, so planed boards look fine and sawn ones fibrous, and surfaces
+ * with a groove spacing get milled grooves. The diffuse map is a light
+ * greyscale, so the wood color still tints it.
+ */
+export function proceduralTextures(surface: SurfaceEntry): WoodTextures {
+  // Planed (-0.25) has no fibres, sawn (+0.25) the most
+  const fibre = Math.min(Math.max((surface.roughnessOffset + 0.25) / 0.5, 0), 1);
+  const grooves = surface.grooveSpacing
+    ? Math.max(1, Math.round(TILE_SIZE / surface.grooveSpacing))
+    : 0;
+  const key = `${fibre.toFixed(3)}/${grooves}`;
+  const cached = textureCache.get(key);
+  if (cached) return cached;
+
+  const warp = valueNoise(4, 2, 1);
+  const fibres = valueNoise(128, 6, 2);
+  const pores = valueNoise(64, 32, 3);
+  const height = new Float32Array(SIZE * SIZE);
+  const rings = new Float32Array(SIZE * SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const u = x / SIZE;
+      const v = y / SIZE;
+      const ring = 0.5 + 0.5 * Math.sin(2 * Math.PI * (u * RINGS_PER_TILE + 1.5 * warp(u, v)));
+      const groove = grooves ? 0.5 - 0.5 * Math.cos(2 * Math.PI * u * grooves) : 0;
+      const i = y * SIZE + x;
+      rings[i] = ring;
+      height[i] =
+        0.15 * ring + fibre * (0.6 * fibres(u, v) + 0.25 * pores(u, v)) + 0.8 * groove;
+    }
+  }
+
+  const diffuse = new Uint8Array(SIZE * SIZE * 4);
+  const normal = new Uint8Array(SIZE * SIZE * 4);
+  const roughness = new Uint8Array(SIZE * SIZE * 4);
+  const at = (x: number, y: number) =>
+    height[((y + SIZE) % SIZE) * SIZE + ((x + SIZE) % SIZE)];
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const i = y * SIZE + x;
+      // Latewood rings are darker, open fibres catch a little shadow
+      const shade = 1 - 0.18 * rings[i] - 0.12 * fibre * height[i];
+      diffuse.set([shade * 255, shade * 255, shade * 255, 255], i * 4);
+
+      const nx = -(at(x + 1, y) - at(x - 1, y)) * RELIEF;
+      const ny = -(at(x, y + 1) - at(x, y - 1)) * RELIEF;
+      const length = Math.hypot(nx, ny, 1);
+      normal.set(
+        [
+          (nx / length / 2 + 0.5) * 255,
+          (ny / length / 2 + 0.5) * 255,
+          (1 / length / 2 + 0.5) * 255,
+          255,
+        ],
+        i * 4
+      );
+
+      // Only the green channel is read as roughness
+      const rough = Math.min(0.8 + 0.2 * fibre * height[i], 1) * 255;
+      roughness.set([rough, rough, rough, 255], i * 4);
+    }
+  }
+
+  const textures = {
+    diffuse: dataTexture(diffuse, true),
+    normal: dataTexture(normal, false),
+    roughness: dataTexture(roughness, false),
+  };
+  textureCache.set(key, textures);
+  return textures;
+}